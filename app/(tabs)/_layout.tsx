@@ -2,8 +2,13 @@ import { Tabs } from 'expo-router';
 import React from 'react';
 
 import {Ionicons} from "@expo/vector-icons";
+import useBackgroundRefresh from '@/hooks/useBackgroundRefresh';
+import useTranslation from '@/hooks/useTranslation';
 
 export default function TabLayout() {
+    useBackgroundRefresh();
+    const { t } = useTranslation();
+
     return (
         <Tabs
             screenOptions={{
@@ -14,7 +19,7 @@ export default function TabLayout() {
             <Tabs.Screen
                 name="index"
                 options={{
-                    title: 'Home',
+                    title: t('tabs.home'),
                     // Uncomment and adjust to use icons:
                     tabBarIcon: ({ color, size }) => (
                     <Ionicons name="home" size={size} color={color} />),
@@ -23,7 +28,7 @@ export default function TabLayout() {
             <Tabs.Screen
                 name="forecast"
                 options={{
-                    title: 'Forecast Map',
+                    title: t('tabs.forecastMap'),
                     tabBarIcon: ({ color, size }) => (
                     <Ionicons name="map" size={size} color={color} />),
                 }}
@@ -31,7 +36,7 @@ export default function TabLayout() {
             <Tabs.Screen
                 name="weather"
                 options={{
-                    title: 'Weather',
+                    title: t('tabs.weather'),
                     tabBarIcon: ({ color, size }) => (
                     <Ionicons name="cloud" size={size} color={color} />),
                 }}
@@ -39,9 +44,9 @@ export default function TabLayout() {
             <Tabs.Screen
                 name="account"
                 options={{
-                    title: 'Account',
+                    title: t('tabs.settings'),
                     tabBarIcon: ({ color, size }) => (
-                        <Ionicons name="person" size={size} color={color} />),
+                        <Ionicons name="settings" size={size} color={color} />),
                 }}
             />
         </Tabs>
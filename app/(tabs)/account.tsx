@@ -1,28 +1,397 @@
-import React from 'react';
-import { View, Text, StyleSheet } from 'react-native';
+import React, { useEffect, useState } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, Alert, ActivityIndicator, Switch } from 'react-native';
+import { useLocation } from '../../contexts/LocationContext';
+import { useSavedCities } from '../../contexts/SavedCitiesContext';
+import { Settings, useSettings } from '../../contexts/SettingsContext';
+import useFormatter from '../../hooks/useFormatter';
+import { createThemedStyles, useThemeColors } from '../../hooks/useThemeColor';
+import { LocationPrompt } from '../../components/LocationPrompt';
+import { getLastBackgroundRefresh, isBackgroundRefreshAvailable } from '../../services/backgroundRefresh';
+import { clearNominatimCache } from '../../services/nominatim';
+import { clearQueries } from '../../services/queryStore';
+import { clearRecentSearches } from '../../services/recentSearches';
+import { clearWeatherCache } from '../../services/weatherCache';
+import { TEMPERATURE_PALETTES, TemperaturePaletteId } from '../../utils/colorScale';
+import { formatCityName } from '../../utils/format';
+import { LANGUAGES, LanguagePreference } from '../../utils/i18n';
+import { ALERT_RULES, AlertSettings } from '../../utils/weatherAlerts';
 
-export default function Account() {
+interface Option<T extends string> {
+    value: T;
+    label: string;
+}
+
+/**
+ * A labelled row of mutually exclusive choices for one setting.
+ */
+function OptionRow<T extends string>({
+    label,
+    options,
+    selected,
+    onSelect,
+}: {
+    label?: string;
+    options: Option<T>[];
+    selected: T;
+    onSelect: (value: T) => void;
+}) {
+    const styles = useStyles();
     return (
-        <View style={styles.container}>
-            <Text style={styles.heading}>Account</Text>
-            <Text style={styles.text}>User details, settings, and preferences can go here.</Text>
+        <View style={styles.row}>
+            {label && <Text style={styles.rowLabel}>{label}</Text>}
+            <View style={styles.segments}>
+                {options.map(option => {
+                    const isSelected = option.value === selected;
+                    return (
+                        <TouchableOpacity
+                            key={option.value}
+                            style={[styles.segment, isSelected && styles.segmentSelected]}
+                            onPress={() => onSelect(option.value)}
+                        >
+                            <Text style={[styles.segmentText, isSelected && styles.segmentTextSelected]}>
+                                {option.label}
+                            </Text>
+                        </TouchableOpacity>
+                    );
+                })}
+            </View>
         </View>
     );
 }
 
-const styles = StyleSheet.create({
-    container: {
+/**
+ * A labelled on/off row for one setting.
+ */
+function SwitchRow({ label, value, onChange }: { label: string; value: boolean; onChange: (value: boolean) => void }) {
+    const styles = useStyles();
+    return (
+        <View style={styles.row}>
+            <Text style={styles.rowLabel}>{label}</Text>
+            <Switch value={value} onValueChange={onChange} />
+        </View>
+    );
+}
+
+const GRID_REFRESH_MINUTES = [10, 20, 30, 60];
+const MAP_OPACITIES = [0.3, 0.5, 0.7];
+
+// Alert thresholds, in the units the rules use (km/h and °C).
+const WIND_GUST_THRESHOLDS = [60, 75, 90];
+const HEAT_THRESHOLDS = [30, 35, 40];
+const COLD_THRESHOLDS = [-10, -20, -30];
+
+export default function Account() {
+    const { settings, updateSettings } = useSettings();
+    const { setManualLocation } = useLocation();
+    const format = useFormatter();
+    const { t } = format;
+    const styles = useStyles();
+    const colors = useThemeColors();
+    const { cities, loading: citiesLoading } = useSavedCities();
+    const [isClearing, setIsClearing] = useState(false);
+    const [lastRefresh, setLastRefresh] = useState<number | null>(null);
+    const [refreshAvailable, setRefreshAvailable] = useState(true);
+
+    useEffect(() => {
+        getLastBackgroundRefresh()
+            .then(setLastRefresh)
+            .catch(err => console.warn('Error reading last background refresh:', err));
+        isBackgroundRefreshAvailable()
+            .then(setRefreshAvailable)
+            .catch(err => console.warn('Error checking background refresh:', err));
+    }, []);
+
+    const select = <K extends keyof Settings>(key: K) => (value: Settings[K]) => {
+        updateSettings({ [key]: value } as Partial<Settings>);
+    };
+
+    const updateAlerts = (changes: Partial<AlertSettings>) => {
+        updateSettings({ alerts: { ...settings.alerts, ...changes } });
+    };
+
+    const numberOptions = (values: number[], label: (value: number) => string): Option<string>[] =>
+        values.map(value => ({ value: value.toString(), label: label(value) }));
+
+    const paletteOptions: Option<TemperaturePaletteId>[] = TEMPERATURE_PALETTES.map(palette => ({
+        value: palette.id,
+        label: t(palette.labelKey),
+    }));
+
+    const languageOptions: Option<LanguagePreference>[] = [
+        { value: 'system', label: t('settings.languageSystem') },
+        ...LANGUAGES,
+    ];
+
+    const confirmClearCache = () => {
+        Alert.alert(t('settings.clearCache'), t('settings.clearCacheMessage'), [
+            { text: t('common.cancel'), style: 'cancel' },
+            {
+                text: t('common.clear'),
+                style: 'destructive',
+                onPress: async () => {
+                    setIsClearing(true);
+                    try {
+                        clearNominatimCache();
+                        await Promise.all([clearWeatherCache(), clearRecentSearches()]);
+                        // Screens still showing a forecast load it again.
+                        clearQueries();
+                    } catch (err) {
+                        Alert.alert(t('common.errorTitle'), (err as Error).message);
+                    } finally {
+                        setIsClearing(false);
+                    }
+                },
+            },
+        ]);
+    };
+
+    return (
+        <ScrollView style={styles.screen} contentContainerStyle={styles.container}>
+            <Text style={styles.heading}>{t('settings.title')}</Text>
+
+            <Text style={styles.sectionTitle}>{t('settings.defaultLocation')}</Text>
+            <OptionRow
+                label={t('settings.source')}
+                options={[
+                    { value: 'gps', label: t('settings.sourceGps') },
+                    { value: 'city', label: t('settings.sourceCity') },
+                ]}
+                selected={settings.locationSource}
+                onSelect={select('locationSource')}
+            />
+            {settings.locationSource === 'gps' && <LocationPrompt />}
+            {settings.locationSource === 'city' &&
+                (citiesLoading ? (
+                    <ActivityIndicator size="small" />
+                ) : cities.length === 0 ? (
+                    <Text style={styles.hintText}>{t('settings.noCitiesHint')}</Text>
+                ) : (
+                    cities.map(city => {
+                        const isSelected = settings.defaultCity?.id === city.id;
+                        return (
+                            <TouchableOpacity
+                                key={city.id}
+                                style={styles.row}
+                                onPress={() => setManualLocation(city)}
+                            >
+                                <Text style={styles.rowLabel}>{formatCityName(city)}</Text>
+                                {isSelected && <Text style={styles.checkmark}>✓</Text>}
+                            </TouchableOpacity>
+                        );
+                    })
+                ))}
+
+            <Text style={styles.sectionTitle}>{t('settings.units')}</Text>
+            <OptionRow
+                label={t('settings.temperature')}
+                options={[
+                    { value: 'celsius', label: '°C' },
+                    { value: 'fahrenheit', label: '°F' },
+                ]}
+                selected={settings.temperatureUnit}
+                onSelect={select('temperatureUnit')}
+            />
+            <OptionRow
+                label={t('settings.windSpeed')}
+                options={[
+                    { value: 'kmh', label: 'km/h' },
+                    { value: 'mph', label: 'mph' },
+                ]}
+                selected={settings.windSpeedUnit}
+                onSelect={select('windSpeedUnit')}
+            />
+            <OptionRow
+                label={t('settings.precipitation')}
+                options={[
+                    { value: 'mm', label: 'mm' },
+                    { value: 'inch', label: 'in' },
+                ]}
+                selected={settings.precipitationUnit}
+                onSelect={select('precipitationUnit')}
+            />
+            <OptionRow
+                label={t('settings.timeFormat')}
+                options={[
+                    { value: '24h', label: '24h' },
+                    { value: '12h', label: '12h' },
+                ]}
+                selected={settings.timeFormat}
+                onSelect={select('timeFormat')}
+            />
+
+            <Text style={styles.sectionTitle}>{t('settings.appearance')}</Text>
+            <OptionRow
+                label={t('settings.theme')}
+                options={[
+                    { value: 'system', label: t('settings.themeSystem') },
+                    { value: 'light', label: t('settings.themeLight') },
+                    { value: 'dark', label: t('settings.themeDark') },
+                ]}
+                selected={settings.themeOverride}
+                onSelect={select('themeOverride')}
+            />
+            <Text style={[styles.rowLabel, styles.stackedLabel]}>{t('settings.language')}</Text>
+            <OptionRow
+                options={languageOptions}
+                selected={settings.language}
+                onSelect={select('language')}
+            />
+
+            <Text style={styles.sectionTitle}>{t('settings.weatherMap')}</Text>
+            <OptionRow
+                label={t('settings.gridRefresh')}
+                options={numberOptions(GRID_REFRESH_MINUTES, value => t('settings.minutes', { count: value }))}
+                selected={settings.gridRefreshMinutes.toString()}
+                onSelect={value => updateSettings({ gridRefreshMinutes: parseInt(value, 10) })}
+            />
+            <OptionRow
+                label={t('settings.temperatureColors')}
+                options={paletteOptions}
+                selected={settings.temperaturePalette}
+                onSelect={select('temperaturePalette')}
+            />
+            <OptionRow
+                label={t('settings.overlayOpacity')}
+                options={numberOptions(MAP_OPACITIES, value => format.percent(value * 100))}
+                selected={settings.mapOpacity.toString()}
+                onSelect={value => updateSettings({ mapOpacity: parseFloat(value) })}
+            />
+
+            <Text style={styles.sectionTitle}>{t('settings.alerts')}</Text>
+            <SwitchRow
+                label={t('settings.notifications')}
+                value={settings.alerts.notify}
+                onChange={notify => updateAlerts({ notify })}
+            />
+            {ALERT_RULES.map(rule => (
+                <SwitchRow
+                    key={rule.id}
+                    label={t(rule.labelKey)}
+                    value={settings.alerts.enabled[rule.id]}
+                    onChange={enabled => updateAlerts({ enabled: { ...settings.alerts.enabled, [rule.id]: enabled } })}
+                />
+            ))}
+            <OptionRow
+                label={t('settings.gustsFrom')}
+                options={numberOptions(WIND_GUST_THRESHOLDS, value => format.windSpeed(value, 'kmh'))}
+                selected={settings.alerts.windGustKmh.toString()}
+                onSelect={value => updateAlerts({ windGustKmh: parseInt(value, 10) })}
+            />
+            <OptionRow
+                label={t('settings.heatFrom')}
+                options={numberOptions(HEAT_THRESHOLDS, value => format.temperature(value, 'celsius'))}
+                selected={settings.alerts.heatCelsius.toString()}
+                onSelect={value => updateAlerts({ heatCelsius: parseInt(value, 10) })}
+            />
+            <OptionRow
+                label={t('settings.coldFrom')}
+                options={numberOptions(COLD_THRESHOLDS, value => format.temperature(value, 'celsius'))}
+                selected={settings.alerts.coldCelsius.toString()}
+                onSelect={value => updateAlerts({ coldCelsius: parseInt(value, 10) })}
+            />
+
+            <Text style={styles.sectionTitle}>{t('settings.backgroundRefresh')}</Text>
+            <SwitchRow
+                label={t('settings.backgroundRefreshToggle')}
+                value={settings.backgroundRefresh}
+                onChange={select('backgroundRefresh')}
+            />
+            <Text style={styles.hintText}>
+                {!refreshAvailable
+                    ? t('settings.backgroundRefreshOff')
+                    : lastRefresh !== null
+                      ? t('settings.lastRefreshed', { time: format.lastUpdated(lastRefresh) })
+                      : t('settings.notRefreshed')}
+            </Text>
+
+            <Text style={styles.sectionTitle}>{t('settings.data')}</Text>
+            <TouchableOpacity style={styles.destructiveButton} onPress={confirmClearCache} disabled={isClearing}>
+                {isClearing ? (
+                    <ActivityIndicator size="small" color={colors.onAccent} />
+                ) : (
+                    <Text style={styles.destructiveButtonText}>{t('settings.clearCache')}</Text>
+                )}
+            </TouchableOpacity>
+        </ScrollView>
+    );
+}
+
+const useStyles = createThemedStyles((colors) => ({
+    screen: {
         flex: 1,
-        alignItems: 'center',
-        justifyContent: 'center',
+        backgroundColor: colors.background,
+    },
+    container: {
         padding: 16,
+        paddingBottom: 32,
     },
     heading: {
+        color: colors.text,
         fontSize: 24,
         marginBottom: 12,
+        textAlign: 'center',
+    },
+    sectionTitle: {
+        color: colors.text,
+        fontSize: 20,
+        fontWeight: 'bold',
+        marginTop: 16,
+        marginBottom: 8,
+    },
+    row: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingVertical: 12,
+        borderBottomWidth: 1,
+        borderBottomColor: colors.border,
     },
-    text: {
+    rowLabel: {
+        color: colors.text,
         fontSize: 16,
-        textAlign: 'center',
+        flexShrink: 1,
+    },
+    stackedLabel: {
+        paddingTop: 12,
+    },
+    hintText: {
+        fontStyle: 'italic',
+        color: colors.textSecondary,
+        paddingVertical: 8,
+    },
+    checkmark: {
+        fontSize: 18,
+        color: colors.accent,
+    },
+    segments: {
+        flexDirection: 'row',
+        borderWidth: 1,
+        borderColor: colors.accent,
+        borderRadius: 5,
+        overflow: 'hidden',
+    },
+    segment: {
+        paddingVertical: 6,
+        paddingHorizontal: 12,
+    },
+    segmentSelected: {
+        backgroundColor: colors.accent,
+    },
+    segmentText: {
+        fontSize: 14,
+        color: colors.accent,
+    },
+    segmentTextSelected: {
+        color: colors.onAccent,
+    },
+    destructiveButton: {
+        backgroundColor: colors.destructive,
+        borderRadius: 5,
+        padding: 12,
+        alignItems: 'center',
+    },
+    destructiveButtonText: {
+        color: colors.onAccent,
+        fontWeight: 'bold',
     },
-});
\ No newline at end of file
+}));
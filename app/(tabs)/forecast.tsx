@@ -1,174 +1,126 @@
-import React, { useState, useEffect } from 'react';
-import { StyleSheet, View, ActivityIndicator, Text, Button } from 'react-native';
+import React, { useState, useEffect, useRef } from 'react';
+import { View, ActivityIndicator, Text, TouchableOpacity } from 'react-native';
 import MapView, { Marker, Callout, Region, Circle } from 'react-native-maps';
-import * as Location from 'expo-location';
+import { Ionicons } from '@expo/vector-icons';
+import { getMapAppearance } from '../../constants/MapStyles';
+import { useColorScheme } from '../../hooks/useColorScheme';
+import useFormatter from '../../hooks/useFormatter';
+import useMapTracking from '../../hooks/useMapTracking';
+import useNearbyZones from '../../hooks/useNearbyZones';
+import { createThemedStyles, useThemeColors } from '../../hooks/useThemeColor';
 import useWeather from '../../hooks/useWeather';
+import { useSettings } from '../../contexts/SettingsContext';
+import { LocationPrompt } from '../../components/LocationPrompt';
+import { MapLegend } from '../../components/MapLegend';
+import { WeatherIcon } from '../../components/WeatherIcon';
+import { getErrorMessageKey } from '../../services/requestError';
+import { getScaleColor, getTemperaturePalette } from '../../utils/colorScale';
+import { TRACKING_MODES, TrackingMode } from '../../utils/tracking';
 
-/**
- * Helper to convert the API’s weathercode into a friendly description.
- */
-function getWeatherDescription(code: number): string {
-    if (code === 0) return 'Clear';
-    if (code === 1) return 'Mainly clear';
-    if (code === 2) return 'Partly cloudy';
-    if (code === 3) return 'Overcast';
-    if (code >= 45 && code <= 48) return 'Foggy';
-    if (code >= 51 && code <= 57) return 'Drizzle';
-    if (code >= 61 && code <= 67) return 'Rainy';
-    if (code >= 71 && code <= 77) return 'Snowy';
-    if (code >= 80 && code <= 82) return 'Rain showers';
-    if (code >= 85 && code <= 86) return 'Snow showers';
-    if (code >= 95 && code <= 99) return 'Thunderstorm';
-    return 'Unknown';
-}
-
-/**
- * Helper to choose a fillColor for a geofenced zone based on its temperature.
- * The returned color is semi-transparent so that map details remain visible.
- */
-function getTemperatureColor(temp: number): string {
-    if (temp < 10) return 'rgba(0, 0, 255, 0.3)';      // Blueish for cold
-    else if (temp < 20) return 'rgba(0, 255, 0, 0.3)'; // Greenish for mild
-    else if (temp < 30) return 'rgba(255, 165, 0, 0.3)'; // Orange for warm
-    else return 'rgba(255, 0, 0, 0.3)';                  // Red for hot
-}
+/** Duration of the camera moves that follow the user. */
+const CAMERA_ANIMATION_MS = 500;
 
 export default function ForecastMap() {
-    // Location and tracking state.
-    const [location, setLocation] = useState<Location.LocationObject | null>(null);
-    const [locationError, setLocationError] = useState<string | null>(null);
-    const [tracking, setTracking] = useState<boolean>(true);
-    const [region, setRegion] = useState<Region | null>(null);
-
-    // Request permissions and subscribe to realtime location updates.
-    useEffect(() => {
-        let subscription: Location.LocationSubscription | null = null;
+    // Follow the device; updates slow down while the user is at rest.
+    const [mode, setMode] = useState<TrackingMode>('follow');
+    const { position: location, status, heading } = useMapTracking(mode);
+    const [initialRegion, setInitialRegion] = useState<Region | null>(null);
+    const mapRef = useRef<MapView>(null);
 
-        (async () => {
-            const { status } = await Location.requestForegroundPermissionsAsync();
-            if (status !== 'granted') {
-                setLocationError('Permission to access location was denied');
-                return;
-            }
-
-            subscription = await Location.watchPositionAsync(
-                {
-                    accuracy: Location.Accuracy.Highest,
-                    timeInterval: 200,    // Frequency in milliseconds.
-                    distanceInterval: 1,  // Frequency in meters.
-                },
-                (loc) => {
-                    setLocation(loc);
-                    if (tracking) {
-                        setRegion({
-                            latitude: loc.coords.latitude,
-                            longitude: loc.coords.longitude,
-                            latitudeDelta: 0.05,
-                            longitudeDelta: 0.05,
-                        });
-                    }
-                }
-            );
-        })();
-
-        return () => {
-            if (subscription) subscription.remove();
-        };
-    }, [tracking]);
-
-    // Initialize region once the location is available.
+    // Place the map once the location is available.
     useEffect(() => {
-        if (location && !region) {
-            setRegion({
-                latitude: location.coords.latitude,
-                longitude: location.coords.longitude,
+        if (location && !initialRegion) {
+            setInitialRegion({
+                latitude: location.latitude,
+                longitude: location.longitude,
                 latitudeDelta: 0.05,
                 longitudeDelta: 0.05,
             });
         }
-    }, [location]);
+    }, [location, initialRegion]);
+
+    // Pan along with the user. Only the center (and heading) are animated,
+    // so the zoom the user picked is kept.
+    useEffect(() => {
+        if (!location || mode === 'free') return;
+        const center = { latitude: location.latitude, longitude: location.longitude };
+        mapRef.current?.animateCamera(
+            mode === 'followHeading' && heading !== null ? { center, heading } : { center },
+            { duration: CAMERA_ANIMATION_MS }
+        );
+    }, [location, heading, mode]);
+
+    const selectMode = (next: TrackingMode) => {
+        // Turn north up again when the map stops rotating with the compass.
+        if (mode === 'followHeading' && next !== 'followHeading') {
+            mapRef.current?.animateCamera({ heading: 0 }, { duration: CAMERA_ANIMATION_MS });
+        }
+        setMode(next);
+    };
+
+    /** Centers the map on the user at the current zoom and resumes following. */
+    const recenter = () => {
+        if (!location) return;
+        mapRef.current?.animateCamera(
+            { center: { latitude: location.latitude, longitude: location.longitude } },
+            { duration: CAMERA_ANIMATION_MS }
+        );
+        if (mode === 'free') setMode('follow');
+    };
 
     // Fetch weather data (using your existing useWeather hook).
-    const { data, loading, error } = useWeather(
-        location?.coords.latitude,
-        location?.coords.longitude
+    const { data, current, loading, error, lastUpdated, isStale } = useWeather(
+        location?.latitude,
+        location?.longitude
     );
+    const format = useFormatter();
+    const { settings } = useSettings();
+    const temperatureStops = getTemperaturePalette(settings.temperaturePalette).stops;
+    const { zones } = useNearbyZones(location?.latitude, location?.longitude);
+    const styles = useStyles();
+    const colors = useThemeColors();
+    const colorScheme = useColorScheme() ?? 'light';
 
-    if (locationError) {
+    if (status !== 'granted' && status !== 'pending') {
         return (
             <View style={styles.centered}>
-                <Text>{locationError}</Text>
+                <LocationPrompt />
             </View>
         );
     }
 
-    if (!location || !region) {
+    if (!location || !initialRegion) {
         return (
             <View style={styles.centered}>
                 <ActivityIndicator size="large" />
-                <Text>Fetching location...</Text>
+                <Text style={styles.text}>{format.t('location.fetching')}</Text>
             </View>
         );
     }
 
     // Extract current weather info for the overlay.
-    const currentTemperature = data?.hourly?.temperature_2m[0];
-    const currentWeatherCode =
-        data?.hourly?.weathercode && data.hourly.weathercode[0] !== undefined
-            ? data.hourly.weathercode[0]
-            : undefined;
-    const currentWeatherCondition =
-        currentWeatherCode !== undefined ? getWeatherDescription(currentWeatherCode) : '';
-
-    // Simulated geofenced zones. In a real app, you might fetch a grid of temperature data.
-    const geofenceZones = [
-        {
-            id: 'zone1',
-            // Slightly offset from the user's location.
-            center: {
-                latitude: location.coords.latitude + 0.01,
-                longitude: location.coords.longitude + 0.01,
-            },
-            radius: 2000, // in meters
-            temperature: 15, // degrees Celsius
-        },
-        {
-            id: 'zone2',
-            center: {
-                latitude: location.coords.latitude - 0.01,
-                longitude: location.coords.longitude - 0.01,
-            },
-            radius: 2000,
-            temperature: 20,
-        },
-        {
-            id: 'zone3',
-            center: {
-                latitude: location.coords.latitude + 0.02,
-                longitude: location.coords.longitude - 0.01,
-            },
-            radius: 2000,
-            temperature: 25,
-        },
-    ];
+    const currentWeatherCondition = current ? format.condition(current.weatherCode) : '';
 
     return (
         <View style={styles.container}>
             <MapView
+                ref={mapRef}
                 style={styles.map}
-                region={region}
-                onRegionChangeComplete={(newRegion) => {
-                    if (!tracking) setRegion(newRegion);
+                initialRegion={initialRegion}
+                {...getMapAppearance(colorScheme)}
+                // Dragging the map means the user wants to look around.
+                onPanDrag={() => {
+                    if (mode !== 'free') selectMode('free');
                 }}
                 showsUserLocation={true}
             >
-                {/* Render simulated geofenced zones */}
-                {geofenceZones.map((zone) => (
+                {/* Temperature zones sampled around the user */}
+                {zones.map((zone) => (
                     <Circle
                         key={zone.id}
                         center={zone.center}
                         radius={zone.radius}
-                        fillColor={getTemperatureColor(zone.temperature)}
+                        fillColor={getScaleColor(temperatureStops, zone.temperature, settings.mapOpacity)}
                         strokeColor="transparent"
                     />
                 ))}
@@ -176,26 +128,28 @@ export default function ForecastMap() {
                 {/* Existing Marker and Callout for the user's current weather */}
                 <Marker
                     coordinate={{
-                        latitude: location.coords.latitude,
-                        longitude: location.coords.longitude,
+                        latitude: location.latitude,
+                        longitude: location.longitude,
                     }}
                 >
                     <Callout>
                         <View style={styles.callout}>
-                            {error ? (
-                                <Text>Error fetching weather data: {error}</Text>
+                            {error && !data ? (
+                                <Text style={styles.text}>{format.t('forecast.fetchError', { message: format.t(getErrorMessageKey(error)) })}</Text>
                             ) : loading && !data ? (
                                 <ActivityIndicator size="small" />
-                            ) : data ? (
+                            ) : current ? (
                                 <>
-                                    <Text style={styles.calloutTitle}>Current Weather</Text>
-                                    <Text>Temperature: {data.hourly.temperature_2m[0]}°C</Text>
-                                    {data.hourly.weathercode && (
-                                        <Text>Condition: {getWeatherDescription(data.hourly.weathercode[0])}</Text>
-                                    )}
+                                    <WeatherIcon code={current.weatherCode} isDay={current.isDay} size={28} />
+                                    <Text style={styles.calloutTitle}>{format.t('forecast.currentWeather')}</Text>
+                                    <Text style={styles.text}>{format.t('forecast.temperature', { value: format.temperature(current.temperature) })}</Text>
+                                    <Text style={styles.text}>{format.t('forecast.feelsLike', { value: format.temperature(current.apparentTemperature) })}</Text>
+                                    <Text style={styles.text}>{format.t('forecast.condition', { value: currentWeatherCondition })}</Text>
+                                    <Text style={styles.text}>{format.t('forecast.wind', { value: format.windSpeed(current.windSpeed) })}</Text>
+                                    <Text style={styles.text}>{format.t('forecast.humidity', { value: format.percent(current.humidity) })}</Text>
                                 </>
                             ) : (
-                                <Text>No data available</Text>
+                                <Text style={styles.text}>{format.t('common.noData')}</Text>
                             )}
                         </View>
                     </Callout>
@@ -204,65 +158,106 @@ export default function ForecastMap() {
 
             {/* Overlay Box in the Top Left Showing Temperature and Weather Condition */}
             <View style={styles.overlayBox}>
+                {current && (
+                    <WeatherIcon code={current.weatherCode} isDay={current.isDay} style={styles.overlayIcon} />
+                )}
                 <Text style={styles.overlayText}>
-                    {data && currentTemperature !== undefined ? `${currentTemperature}°C` : 'Loading...'}
+                    {current ? format.temperature(current.temperature) : format.t('common.loading')}
                 </Text>
                 <Text style={styles.overlayText}>
-                    {data && currentWeatherCondition ? currentWeatherCondition : ''}
+                    {currentWeatherCondition}
                 </Text>
+                {isStale && lastUpdated !== null && (
+                    <Text style={styles.staleText}>{format.t('weather.updated', { time: format.lastUpdated(lastUpdated) })}</Text>
+                )}
             </View>
 
-            {/* Toggle Button for Tracking vs. Free Mode */}
-            <View style={styles.toggleContainer}>
-                <Button
-                    title={tracking ? 'Switch to Free Mode' : 'Focus on User'}
-                    onPress={() => {
-                        if (tracking) {
-                            setTracking(false);
-                        } else {
-                            setTracking(true);
-                            if (location) {
-                                setRegion({
-                                    latitude: location.coords.latitude,
-                                    longitude: location.coords.longitude,
-                                    latitudeDelta: region.latitudeDelta,
-                                    longitudeDelta: region.longitudeDelta,
-                                });
-                            }
-                        }
-                    }}
+            {/* Legend for the zone colors */}
+            <View style={styles.legend}>
+                <MapLegend
+                    title={format.t('mapLayer.temperature')}
+                    stops={temperatureStops}
+                    formatValue={(value) => format.temperature(value, 'celsius')}
+                    opacity={settings.mapOpacity}
                 />
             </View>
+
+            {/* Tracking mode selector and recenter control */}
+            <View style={styles.trackingControls}>
+                {TRACKING_MODES.map((option) => (
+                    <TouchableOpacity
+                        key={option.id}
+                        style={[styles.modeButton, option.id === mode && styles.modeButtonActive]}
+                        onPress={() => selectMode(option.id)}
+                    >
+                        <Text style={option.id === mode ? styles.modeTextActive : styles.modeText}>{format.t(option.labelKey)}</Text>
+                    </TouchableOpacity>
+                ))}
+                <TouchableOpacity style={styles.recenterButton} onPress={recenter} accessibilityLabel={format.t('forecast.recenter')}>
+                    <Ionicons name="locate" size={20} color={colors.accent} />
+                </TouchableOpacity>
+            </View>
         </View>
     );
 }
 
-const styles = StyleSheet.create({
+const useStyles = createThemedStyles((colors) => ({
     container: {
         flex: 1,
     },
     map: {
         flex: 1,
     },
-    toggleContainer: {
+    trackingControls: {
         position: 'absolute',
         top: 10,
-        alignSelf: 'center',
-        backgroundColor: 'rgba(255, 255, 255, 0.8)',
+        right: 10,
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: colors.overlay,
         borderRadius: 8,
         padding: 4,
         zIndex: 100,
     },
+    modeButton: {
+        paddingHorizontal: 10,
+        paddingVertical: 6,
+        borderRadius: 6,
+    },
+    modeButtonActive: {
+        backgroundColor: colors.accent,
+    },
+    modeText: {
+        color: colors.accent,
+    },
+    modeTextActive: {
+        color: colors.onAccent,
+        fontWeight: 'bold',
+    },
+    recenterButton: {
+        marginLeft: 4,
+        padding: 6,
+    },
     centered: {
         flex: 1,
         alignItems: 'center',
         justifyContent: 'center',
+        backgroundColor: colors.background,
     },
+    text: {
+        color: colors.text,
+    },
+    // Android draws callouts in a white bubble whatever the theme, so the
+    // content brings its own background.
     callout: {
         width: 150,
         alignItems: 'center',
+        backgroundColor: colors.surface,
+        borderRadius: 6,
+        padding: 4,
     },
     calloutTitle: {
+        color: colors.text,
         fontWeight: 'bold',
         marginBottom: 4,
     },
@@ -270,15 +265,32 @@ const styles = StyleSheet.create({
         position: 'absolute',
         top: 10,
         left: 10,
-        backgroundColor: 'rgba(255,255,255,0.9)',
+        backgroundColor: colors.overlay,
         borderRadius: 8,
         padding: 8,
         elevation: 10,
         zIndex: 200,
     },
+    overlayIcon: {
+        alignSelf: 'center',
+        marginBottom: 4,
+    },
     overlayText: {
+        color: colors.text,
         fontSize: 14,
         marginBottom: 4,
         textAlign: 'center',
     },
-});
\ No newline at end of file
+    legend: {
+        position: 'absolute',
+        bottom: 24,
+        left: 10,
+        zIndex: 100,
+    },
+    staleText: {
+        fontSize: 12,
+        fontStyle: 'italic',
+        color: colors.warning,
+        textAlign: 'center',
+    },
+}));
@@ -1,140 +1,124 @@
 // HomeScreen.tsx
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
     View,
     Text,
     ActivityIndicator,
-    StyleSheet,
     ScrollView,
-    TextInput,
     TouchableOpacity,
     Keyboard,
+    RefreshControl,
 } from 'react-native';
+import { useRouter } from 'expo-router';
+import useFormatter from '../../hooks/useFormatter';
+import { createThemedStyles } from '../../hooks/useThemeColor';
+import useTranslation from '../../hooks/useTranslation';
 import useWeather from '../../hooks/useWeather';
-import useLocation from '../../hooks/useLocation';
-import useNominatim, { NominatimSearchResult } from '../../hooks/useNominatim';
-
-/**
- * Define a type for our city data so that all listings include:
- * city, state, country, latitude, and longitude.
- */
-interface CityData {
-    id: string;
-    city: string;
-    state: string;
-    country: string;
-    latitude: number;
-    longitude: number;
-}
+import useGeocoding, { Place } from '../../hooks/useGeocoding';
+import { useSavedCities } from '../../contexts/SavedCitiesContext';
+import useWeatherAlerts from '../../hooks/useWeatherAlerts';
+import { useLocation } from '../../contexts/LocationContext';
+import { AlertBanner } from '../../components/AlertBanner';
+import { CitySearch } from '../../components/CitySearch';
+import { LocationPrompt } from '../../components/LocationPrompt';
+import { WeatherIcon } from '../../components/WeatherIcon';
+import { placeToCity } from '../../services/geocoding';
+import { getErrorMessageKey } from '../../services/requestError';
+import { CityData } from '../../services/savedCities';
+import { formatCityName } from '../../utils/format';
 
 export default function HomeScreen() {
-    // Get the device's current location
-    const { location, errorMsg: locationError } = useLocation();
-    const { geocode, reverseGeocode } = useNominatim();
+    // The device's location, or the city chosen as the manual location in settings
+    const { location, errorMsg: locationError, city: preferredCity } = useLocation();
+    const { reverse } = useGeocoding();
+    const { t } = useTranslation();
+    const styles = useStyles();
     const [userCity, setUserCity] = useState<CityData | null>(null);
 
-    // State for manually added cities
-    const [cities, setCities] = useState<CityData[]>([]);
+    // Manually added cities, persisted across restarts.
+    const { cities, loading: citiesLoading, error: citiesError, addCity, removeCity, moveCity } = useSavedCities();
+    const [isEditing, setIsEditing] = useState(false);
     const [isAddingCity, setIsAddingCity] = useState(false);
-    const [newCityName, setNewCityName] = useState('');
-    const [suggestions, setSuggestions] = useState<NominatimSearchResult[]>([]);
+
+    // Severe weather alerts for the user's location and every saved city.
+    const alertCities = useMemo(() => (userCity ? [userCity, ...cities] : cities), [userCity, cities]);
+    const { alerts } = useWeatherAlerts(alertCities);
+
+    // Each visible city registers its refetch so pull-to-refresh can run them all.
+    const refetchersRef = useRef(new Map<string, () => Promise<void>>());
+    const [isRefreshing, setIsRefreshing] = useState(false);
+
+    const registerRefetch = useCallback((id: string, refetch: () => Promise<void>) => {
+        refetchersRef.current.set(id, refetch);
+        return () => {
+            refetchersRef.current.delete(id);
+        };
+    }, []);
+
+    const handleRefresh = async () => {
+        setIsRefreshing(true);
+        await Promise.allSettled(Array.from(refetchersRef.current.values(), refetch => refetch()));
+        setIsRefreshing(false);
+    };
 
     // Reverse geocode the user's location to get structured address details.
     useEffect(() => {
         async function fetchUserCity() {
-            if (location) {
+            if (preferredCity) {
+                setUserCity(preferredCity);
+            } else if (location) {
+                let place: Place | null = null;
                 try {
-                    const result = await reverseGeocode(location.latitude, location.longitude);
-                    const addr = result.address;
-                    const cityName = addr.city || addr.town || addr.village || 'Unknown City';
-                    const state = addr.state || 'Unknown State';
-                    const country = addr.country || 'Unknown Country';
-                    setUserCity({
-                        id: 'user',
-                        city: cityName,
-                        state,
-                        country,
-                        latitude: location.latitude,
-                        longitude: location.longitude,
-                    });
+                    place = await reverse(location.latitude, location.longitude);
                 } catch (error) {
+                    // Still show the forecast for the coordinates, just without a name.
                     console.error('Error in reverse geocoding:', error);
                 }
+                setUserCity({
+                    id: 'user',
+                    city: place?.name || t('home.unknownCity'),
+                    state: place?.state ?? '',
+                    country: place?.country ?? '',
+                    latitude: location.latitude,
+                    longitude: location.longitude,
+                });
             }
         }
         fetchUserCity();
-    }, [location, reverseGeocode]);
+    }, [location, preferredCity, reverse, t]);
 
     /**
-     * When the user types in the input, call the geocode function after a debounce.
-     * Only perform the search if the input length is greater than 2.
+     * When a place is picked from the search, add it to the cities list.
      */
-    useEffect(() => {
-        const fetchSuggestions = async () => {
-            if (newCityName.length > 2) {
-                try {
-                    const results = await geocode(newCityName);
-                    // Filter results to ensure they include city/town/village, state, and country.
-                    const filtered = results.filter(result => {
-                        const addr = result.address;
-                        return (addr.city || addr.town || addr.village) && addr.state && addr.country;
-                    });
-                    setSuggestions(filtered);
-                } catch (error) {
-                    console.error('Error fetching suggestions:', error);
-                    setSuggestions([]);
-                }
-            } else {
-                setSuggestions([]);
-            }
-        };
-
-        const delayDebounce = setTimeout(() => {
-            fetchSuggestions();
-        }, 500);
-
-        return () => clearTimeout(delayDebounce);
-    }, [newCityName, geocode]);
-
-    /**
-     * When a suggestion is selected from the dropdown,
-     * extract the required address components and add it to the cities list.
-     */
-    const handleSelectSuggestion = (suggestion: NominatimSearchResult) => {
-        const addr = suggestion.address;
-        const cityName = addr.city || addr.town || addr.village || 'Unknown City';
-        const state = addr.state || 'Unknown State';
-        const country = addr.country || 'Unknown Country';
-        const newCity: CityData = {
-            id: suggestion.place_id.toString(),
-            city: cityName,
-            state,
-            country,
-            latitude: parseFloat(suggestion.lat),
-            longitude: parseFloat(suggestion.lon),
-        };
+    const handleSelectPlace = (place: Place) => {
+        const newCity = placeToCity(place);
 
         // Add the new city if it hasn’t been added already.
         if (!cities.find(c => c.id === newCity.id)) {
-            setCities(prev => [...prev, newCity]);
+            addCity(newCity);
         }
-        setNewCityName('');
-        setSuggestions([]);
         setIsAddingCity(false);
         Keyboard.dismiss();
     };
 
     return (
-        <ScrollView contentContainerStyle={styles.container}>
-            <Text style={styles.header}>Weather</Text>
+        <ScrollView
+            style={styles.screen}
+            contentContainerStyle={styles.container}
+            keyboardShouldPersistTaps="handled"
+            refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />}
+        >
+            <Text style={styles.header}>{t('home.title')}</Text>
+
+            <AlertBanner alerts={alerts} />
 
             {/* User's Location Section */}
             <View style={styles.section}>
-                <Text style={styles.sectionTitle}>Your Location</Text>
+                <Text style={styles.sectionTitle}>{t('home.yourLocation')}</Text>
                 {locationError ? (
-                    <Text style={styles.errorText}>{locationError}</Text>
+                    <LocationPrompt />
                 ) : userCity ? (
-                    <CityWeatherItem city={userCity} />
+                    <CityWeatherItem city={userCity} registerRefetch={registerRefetch} />
                 ) : (
                     <ActivityIndicator size="large" />
                 )}
@@ -142,60 +126,72 @@ export default function HomeScreen() {
 
             {/* Other Cities Section */}
             <View style={styles.section}>
-                <Text style={styles.sectionTitle}>Other Cities</Text>
-                <View style={styles.addCityContainer}>
-                    {isAddingCity ? (
-                        <View style={styles.inputContainer}>
-                            <TextInput
-                                style={styles.input}
-                                placeholder="Enter city name"
-                                value={newCityName}
-                                onChangeText={setNewCityName}
-                            />
-                            <TouchableOpacity
-                                onPress={() => {
-                                    setIsAddingCity(false);
-                                    setNewCityName('');
-                                    setSuggestions([]);
-                                }}
-                                style={styles.cancelButton}
-                            >
-                                <Text style={styles.cancelButtonText}>X</Text>
-                            </TouchableOpacity>
-                        </View>
-                    ) : (
-                        <TouchableOpacity
-                            onPress={() => setIsAddingCity(true)}
-                            style={styles.addCityButton}
-                        >
-                            <Text style={styles.plusIcon}>+</Text>
+                <View style={styles.sectionHeader}>
+                    <Text style={styles.sectionTitle}>{t('home.otherCities')}</Text>
+                    {(isEditing || cities.length > 0) && (
+                        <TouchableOpacity onPress={() => setIsEditing(prev => !prev)}>
+                            <Text style={styles.editButtonText}>{isEditing ? t('common.done') : t('common.edit')}</Text>
                         </TouchableOpacity>
                     )}
                 </View>
-                {/* Dropdown suggestions */}
-                {isAddingCity && suggestions.length > 0 && (
-                    <View style={styles.suggestionsContainer}>
-                        {suggestions.map(suggestion => {
-                            const addr = suggestion.address;
-                            const displayCity = addr.city || addr.town || addr.village || 'Unknown City';
-                            const displayState = addr.state || 'Unknown State';
-                            const displayCountry = addr.country || 'Unknown Country';
-                            return (
-                                <TouchableOpacity
-                                    key={suggestion.place_id}
-                                    style={styles.suggestionItem}
-                                    onPress={() => handleSelectSuggestion(suggestion)}
-                                >
-                                    <Text>{`${displayCity}, ${displayState}, ${displayCountry}`}</Text>
-                                </TouchableOpacity>
-                            );
-                        })}
+                {isAddingCity ? (
+                    <CitySearch
+                        origin={userCity}
+                        onSelect={handleSelectPlace}
+                        onCancel={() => setIsAddingCity(false)}
+                    />
+                ) : (
+                    <View style={styles.addCityContainer}>
+                        <TouchableOpacity onPress={() => setIsAddingCity(true)} style={styles.addCityButton}>
+                            <Text style={styles.plusIcon}>+</Text>
+                        </TouchableOpacity>
                     </View>
                 )}
-                {cities.length === 0 && !isAddingCity ? (
-                    <Text style={styles.noCityText}>No cities added yet.</Text>
+                {citiesError && <Text style={styles.errorText}>{t('common.error', { message: citiesError })}</Text>}
+                {citiesLoading ? (
+                    <ActivityIndicator size="small" />
+                ) : cities.length === 0 && !isAddingCity ? (
+                    <Text style={styles.noCityText}>{t('home.noCities')}</Text>
                 ) : (
-                    cities.map(city => <CityWeatherItem key={city.id} city={city} />)
+                    cities.map((city, index) =>
+                        isEditing ? (
+                            <View key={city.id} style={styles.editRow}>
+                                <Text style={styles.cityName}>{formatCityName(city)}</Text>
+                                <View style={styles.editControls}>
+                                    <TouchableOpacity
+                                        onPress={() => moveCity(index, index - 1)}
+                                        disabled={index === 0}
+                                        style={styles.editControl}
+                                    >
+                                        <Text style={index === 0 ? styles.editControlDisabled : styles.editControlText}>▲</Text>
+                                    </TouchableOpacity>
+                                    <TouchableOpacity
+                                        onPress={() => moveCity(index, index + 1)}
+                                        disabled={index === cities.length - 1}
+                                        style={styles.editControl}
+                                    >
+                                        <Text
+                                            style={
+                                                index === cities.length - 1
+                                                    ? styles.editControlDisabled
+                                                    : styles.editControlText
+                                            }
+                                        >
+                                            ▼
+                                        </Text>
+                                    </TouchableOpacity>
+                                    <TouchableOpacity
+                                        onPress={() => removeCity(city.id)}
+                                        style={[styles.editControl, styles.cancelButton]}
+                                    >
+                                        <Text style={styles.cancelButtonText}>X</Text>
+                                    </TouchableOpacity>
+                                </View>
+                            </View>
+                        ) : (
+                            <CityWeatherItem key={city.id} city={city} registerRefetch={registerRefetch} />
+                        )
+                    )
                 )}
             </View>
         </ScrollView>
@@ -204,35 +200,75 @@ export default function HomeScreen() {
 
 /**
  * A component that displays weather information for a given city.
- * The city name is shown in the required format: {city}, {state}, {country}.
+ * The city name is shown as {city}, {state}, {country}, skipping unknown parts.
+ * Tapping the row opens the city's detailed forecast.
  */
-function CityWeatherItem({ city }: { city: CityData }) {
-    const { data, loading, error } = useWeather(city.latitude, city.longitude);
-    const currentTemperature = data?.hourly?.temperature_2m?.[0];
+function CityWeatherItem({
+    city,
+    registerRefetch,
+}: {
+    city: CityData;
+    /** Makes the item's refetch available to the screen; returns an unregister function. */
+    registerRefetch?: (id: string, refetch: () => Promise<void>) => () => void;
+}) {
+    const router = useRouter();
+    const { current, loading, error, lastUpdated, isStale, refetch } = useWeather(city.latitude, city.longitude);
+    const format = useFormatter();
+    const styles = useStyles();
+
+    useEffect(() => registerRefetch?.(city.id, refetch), [registerRefetch, city.id, refetch]);
+
+    const openDetails = () => {
+        router.push({
+            pathname: '/city/[id]',
+            params: {
+                id: city.id,
+                city: city.city,
+                state: city.state,
+                country: city.country,
+                latitude: city.latitude.toString(),
+                longitude: city.longitude.toString(),
+            },
+        });
+    };
 
     return (
-        <View style={styles.cityItem}>
-            <Text style={styles.cityName}>{`${city.city}, ${city.state}, ${city.country}`}</Text>
-            {loading ? (
+        <TouchableOpacity style={styles.cityItem} onPress={openDetails}>
+            <Text style={styles.cityName}>{formatCityName(city)}</Text>
+            {loading && !current ? (
                 <ActivityIndicator size="small" />
+            ) : current ? (
+                <View style={styles.conditions}>
+                    <View style={styles.temperatureRow}>
+                        <WeatherIcon code={current.weatherCode} isDay={current.isDay} size={20} style={styles.conditionIcon} />
+                        <Text style={styles.temperatureText}>{format.temperature(current.temperature)}</Text>
+                    </View>
+                    <Text style={styles.conditionText}>{format.condition(current.weatherCode)}</Text>
+                    <Text style={styles.conditionText}>{format.t('weather.feelsLike', { temperature: format.temperature(current.apparentTemperature) })}</Text>
+                    {isStale && lastUpdated !== null && (
+                        <Text style={styles.staleText}>{format.t('weather.updated', { time: format.lastUpdated(lastUpdated) })}</Text>
+                    )}
+                </View>
             ) : error ? (
-                <Text style={styles.errorText}>Error: {error}</Text>
+                <Text style={styles.errorText}>{format.t('common.error', { message: format.t(getErrorMessageKey(error)) })}</Text>
             ) : (
-                <Text style={styles.temperatureText}>
-                    {currentTemperature ? `${currentTemperature}°C` : 'N/A'}
-                </Text>
+                <Text style={styles.temperatureText}>{format.t('common.notAvailable')}</Text>
             )}
-        </View>
+        </TouchableOpacity>
     );
 }
 
-const styles = StyleSheet.create({
+const useStyles = createThemedStyles((colors) => ({
+    screen: {
+        flex: 1,
+        backgroundColor: colors.background,
+    },
     container: {
         padding: 16,
         paddingBottom: 32,
-        backgroundColor: '#fff',
     },
     header: {
+        color: colors.text,
         fontSize: 28,
         fontWeight: 'bold',
         textAlign: 'center',
@@ -242,22 +278,79 @@ const styles = StyleSheet.create({
         marginBottom: 24,
     },
     sectionTitle: {
+        color: colors.text,
         fontSize: 20,
         fontWeight: 'bold',
         marginBottom: 8,
     },
+    sectionHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+    },
+    editButtonText: {
+        fontSize: 16,
+        color: colors.accent,
+        marginBottom: 8,
+    },
+    editRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingVertical: 12,
+        borderBottomWidth: 1,
+        borderBottomColor: colors.border,
+    },
+    editControls: {
+        flexDirection: 'row',
+        alignItems: 'center',
+    },
+    editControl: {
+        marginLeft: 8,
+        padding: 8,
+    },
+    editControlText: {
+        fontSize: 16,
+        color: colors.accent,
+    },
+    editControlDisabled: {
+        fontSize: 16,
+        color: colors.disabled,
+    },
     cityItem: {
         flexDirection: 'row',
         justifyContent: 'space-between',
         alignItems: 'center',
         paddingVertical: 12,
         borderBottomWidth: 1,
-        borderBottomColor: '#ccc',
+        borderBottomColor: colors.border,
     },
     cityName: {
+        color: colors.text,
         fontSize: 18,
+        flexShrink: 1,
+    },
+    conditions: {
+        alignItems: 'flex-end',
+    },
+    temperatureRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+    },
+    conditionIcon: {
+        marginRight: 6,
+    },
+    conditionText: {
+        fontSize: 14,
+        color: colors.textSecondary,
+    },
+    staleText: {
+        fontSize: 12,
+        fontStyle: 'italic',
+        color: colors.warning,
     },
     temperatureText: {
+        color: colors.text,
         fontSize: 18,
         fontWeight: 'bold',
     },
@@ -270,55 +363,29 @@ const styles = StyleSheet.create({
         width: 40,
         height: 40,
         borderRadius: 20,
-        backgroundColor: '#007AFF',
+        backgroundColor: colors.accent,
         justifyContent: 'center',
         alignItems: 'center',
     },
     plusIcon: {
         fontSize: 28,
-        color: '#fff',
-    },
-    inputContainer: {
-        flexDirection: 'row',
-        alignItems: 'center',
-        flex: 1,
-    },
-    input: {
-        flex: 1,
-        height: 40,
-        borderColor: '#ccc',
-        borderWidth: 1,
-        borderRadius: 5,
-        paddingHorizontal: 8,
+        color: colors.onAccent,
     },
     cancelButton: {
         marginLeft: 8,
-        backgroundColor: '#ff3b30',
+        backgroundColor: colors.destructive,
         padding: 8,
         borderRadius: 5,
     },
     cancelButtonText: {
-        color: '#fff',
+        color: colors.onAccent,
         fontWeight: 'bold',
     },
-    suggestionsContainer: {
-        backgroundColor: '#f9f9f9',
-        borderWidth: 1,
-        borderColor: '#ccc',
-        borderRadius: 5,
-        maxHeight: 200,
-        marginBottom: 16,
-    },
-    suggestionItem: {
-        padding: 8,
-        borderBottomWidth: 1,
-        borderBottomColor: '#eee',
-    },
     errorText: {
-        color: 'red',
+        color: colors.error,
     },
     noCityText: {
         fontStyle: 'italic',
-        color: '#555',
+        color: colors.textSecondary,
     },
-});
\ No newline at end of file
+}));
@@ -1,339 +1,547 @@
-import React, { useEffect, useRef, useState } from 'react';
-import { StyleSheet, View, ActivityIndicator, Text } from 'react-native';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { View, ActivityIndicator, Text, ScrollView, TouchableOpacity } from 'react-native';
 import MapView, { Marker, Polygon, Region } from 'react-native-maps';
-import useLocation from '../../hooks/useLocation';
+import { useColorScheme } from '../../hooks/useColorScheme';
+import useFormatter from '../../hooks/useFormatter';
+import { createThemedStyles, useThemeColors } from '../../hooks/useThemeColor';
+import { useLocation } from '../../contexts/LocationContext';
+import { useSettings } from '../../contexts/SettingsContext';
+import { LocationPrompt } from '../../components/LocationPrompt';
+import { MapLegend } from '../../components/MapLegend';
+import { TimeScrubber } from '../../components/TimeScrubber';
+import { WeatherIcon } from '../../components/WeatherIcon';
+import { MAP_LAYERS, MAP_LAYER_VARIABLES, MapLayerId, getLayerStops, getMapLayer } from '../../constants/MapLayers';
+import { getMapAppearance } from '../../constants/MapStyles';
+import { HourlyVariable, fetchForecastBatch, parseLocalTime } from '../../services/openMeteo';
+import { chunk, mapSettledWithConcurrency } from '../../utils/async';
+import { getScaleColor } from '../../utils/colorScale';
+import { Coordinate, Tile, getVisibleTiles } from '../../utils/mapGrid';
 
 // --------------------
 // Interfaces
 // --------------------
-interface Coordinate {
-    latitude: number;
-    longitude: number;
-}
-
 interface Zone {
+    /** The stable tile key, so a cell keeps its id across pans. */
     id: string;
     coordinates: Coordinate[];
-    temperature: number | null;
+    center: Coordinate;
+    series: ZoneSeries | null;
+    /** 'error' when the zone's last fetch failed; it is drawn as unknown until a retry succeeds. */
+    status: 'loading' | 'ready' | 'error';
+    /** When the values were last fetched successfully. */
+    fetchedAt?: number;
 }
 
-interface GradientStop {
-    temp: number;
-    color: [number, number, number];
+/**
+ * Hourly values for each map layer's variable. Series are fetched in UTC,
+ * so slot `i` covers the hour starting at `startTime + i` hours.
+ */
+interface ZoneSeries {
+    startTime: number;
+    values: Partial<Record<HourlyVariable, number[]>>;
 }
 
 // --------------------
 // Grid & Zone Parameters
 // --------------------
-const numberOfRows = 8;
-const numberOfColumns = 6;
+/** Initial zoom around the user; the grid then follows the viewport. */
+const INITIAL_DELTA = 0.5;
 
-// Size of each zone in degrees
-const latStep = 0.08;
-const lonStep = 0.10;
+/** Zones kept in memory so panning back does not refetch. */
+const MAX_CACHED_ZONES = 400;
 
-/**
- * Generates a grid of rectangular zones.
- *
- * Instead of a fixed bottom-left corner, we pass in the
- * starting latitude and longitude. In our example we’ll
- * calculate these so that the grid is centered on the user's location.
- */
-function generateZones(latStart: number, lonStart: number): Zone[] {
-    const zones: Zone[] = [];
-    let zoneCount = 0;
-    for (let row = 0; row < numberOfRows; row++) {
-        for (let col = 0; col < numberOfColumns; col++) {
-            zoneCount++;
-
-            // Calculate the corners of the zone.
-            const latMin = latStart + row * latStep;
-            const latMax = latStart + (row + 1) * latStep;
-            const lonMin = lonStart + col * lonStep;
-            const lonMax = lonStart + (col + 1) * lonStep;
-
-            const coordinates: Coordinate[] = [
-                { latitude: latMin, longitude: lonMin },
-                { latitude: latMin, longitude: lonMax },
-                { latitude: latMax, longitude: lonMax },
-                { latitude: latMax, longitude: lonMin },
-            ];
-
-            zones.push({
-                id: `zone${zoneCount}`,
-                coordinates,
-                temperature: null,
-            });
-        }
-    }
-    return zones;
-}
+const HOUR_MS = 60 * 60 * 1000;
 
-// --------------------
-// Helper Functions
-// --------------------
-/**
- * Computes the centroid (average position) of an array of coordinates.
- */
-function computeCentroid(coordinates: Coordinate[]): Coordinate {
-    const total = coordinates.reduce(
-        (acc, cur) => ({
-            latitude: acc.latitude + cur.latitude,
-            longitude: acc.longitude + cur.longitude,
-        }),
-        { latitude: 0, longitude: 0 }
-    );
+/** Timeline lengths the scrubber cycles through, in hours. */
+const TIMELINE_RANGES = [24, 48, 72];
+
+/** Delay between steps while the timeline plays. */
+const PLAYBACK_INTERVAL_MS = 700;
+
+function zoneFromTile(tile: Tile): Zone {
     return {
-        latitude: total.latitude / coordinates.length,
-        longitude: total.longitude / coordinates.length,
+        id: tile.key,
+        coordinates: tile.coordinates,
+        center: tile.center,
+        series: null,
+        status: 'loading',
     };
 }
 
 /**
- * Returns a semi-transparent fill color based on a temperature value.
+ * Returns a zone's value for one variable at the hour containing `time`,
+ * or null when it is unknown or the zone's last fetch failed.
  */
-// Define the gradient stops once
-const gradient: GradientStop[] = [
-    { temp: -10, color: [0, 0, 139] },     // Very dark blue
-    { temp: -7.5, color: [0, 0, 205] },    // Dark blue
-    { temp: -5, color: [0, 0, 255] },      // Blue
-    { temp: -2.5, color: [173, 216, 230] },// Light blue
-    { temp: 0, color: [240, 248, 255] },   // Blue whitish blue
-    { temp: 2.5, color: [255, 255, 224] },  // Very light yellow
-    { temp: 5, color: [255, 255, 153] },    // Light yellow
-    { temp: 7.5, color: [255, 255, 0] },     // Yellow
-    { temp: 10, color: [255, 255, 0] },     // Yellow (plateau)
-    { temp: 12.5, color: [204, 204, 0] },   // Dark yellow
-    { temp: 15, color: [255, 165, 100] },   // Light orange
-    { temp: 17.5, color: [255, 140, 0] },   // Orange
-    { temp: 20, color: [255, 120, 0] },     // Dark orange
-    { temp: 25, color: [255, 80, 80] },     // Light red
-    { temp: 28, color: [255, 0, 0] },       // Red
-    { temp: 32, color: [139, 0, 0] },       // Dark red
-    { temp: 35, color: [100, 0, 0] },       // Very dark red
-];
-// Helper to convert a color tuple to a rgba string
-function rgbaFromColor(color: [number, number, number], alpha: number = 0.5): string {
-    return `rgba(${color[0]}, ${color[1]}, ${color[2]}, ${alpha})`;
+function getZoneValue(zone: Zone, variable: HourlyVariable, time: number): number | null {
+    if (zone.status === 'error' || !zone.series) return null;
+    const index = Math.floor((time - zone.series.startTime) / HOUR_MS);
+    return zone.series.values[variable]?.[index] ?? null;
 }
 
-function getTemperatureColor(temp: number | null): string {
-    // Return a default gray if temperature is unknown
-    if (temp === null) return 'rgba(128, 128, 128, 0.3)';
-
-    // If temperature is below the lowest stop, return the lowest color.
-    if (temp <= gradient[0].temp) {
-        return rgbaFromColor(gradient[0].color);
-    }
-
-    // If temperature is above the highest stop, return the highest color.
-    if (temp >= gradient[gradient.length - 1].temp) {
-        return rgbaFromColor(gradient[gradient.length - 1].color);
-    }
-
-    // Interpolate between the two gradient stops that enclose the temperature.
-    for (let i = 0; i < gradient.length - 1; i++) {
-        const start = gradient[i];
-        const end = gradient[i + 1];
-
-        if (temp >= start.temp && temp <= end.temp) {
-            const factor = (temp - start.temp) / (end.temp - start.temp);
-            const r = Math.round(start.color[0] + factor * (end.color[0] - start.color[0]));
-            const g = Math.round(start.color[1] + factor * (end.color[1] - start.color[1]));
-            const b = Math.round(start.color[2] + factor * (end.color[2] - start.color[2]));
-            return rgbaFromColor([r, g, b]);
-        }
-    }
-
-    // Fallback (this line should not be reached)
-    return 'rgba(128, 128, 128, 0.3)';
-}
+// --------------------
+// Batched Fetching
+// --------------------
+/** Every layer's variable, plus what the zone markers need for their condition icon. */
+const ZONE_VARIABLES: HourlyVariable[] = [...MAP_LAYER_VARIABLES, 'weather_code', 'is_day'];
 
+/** Locations per Open-Meteo request; keeps URLs well under server limits. */
+const ZONES_PER_REQUEST = 25;
+/** Requests allowed in flight at once. */
+const MAX_CONCURRENT_REQUESTS = 2;
 
+/**
+ * Fetches the hourly series of every map layer for each zone using
+ * chunked multi-location requests. All layers are requested together so
+ * switching layers and scrubbing through time never refetch. Each chunk
+ * succeeds or fails on its own, so a failed request only marks its own
+ * zones as errored.
+ */
+async function fetchZoneSeries(zones: Zone[]): Promise<Map<string, ZoneSeries | Error>> {
+    const chunks = chunk(zones, ZONES_PER_REQUEST);
+    const results = await mapSettledWithConcurrency(chunks, MAX_CONCURRENT_REQUESTS, (zoneChunk) =>
+        // Always fetched in the API's default units: the layer scales are
+        // defined in them, and labels are converted when displayed. UTC keeps
+        // every zone on the same hourly timeline regardless of its timezone.
+        fetchForecastBatch(
+            zoneChunk.map((zone) => zone.center),
+            {
+                hourly: ZONE_VARIABLES,
+                timezone: 'GMT',
+                // The series starts at midnight, so one extra day covers the longest timeline.
+                forecastDays: Math.ceil(TIMELINE_RANGES[TIMELINE_RANGES.length - 1] / 24) + 1,
+            }
+        )
+    );
 
-async function fetchTemperatureForZone(
-    lat: number,
-    lon: number,
-    incrementCallCount: () => void
-): Promise<number> {
-    incrementCallCount(); // Count this API call.
-    const BASE_URL = 'https://api.open-meteo.com/v1/forecast';
-    const url = `${BASE_URL}?latitude=${lat}&longitude=${lon}&hourly=temperature_2m&timezone=auto`;
-    const response = await fetch(url);
-    if (!response.ok) {
-        throw new Error('Failed to fetch temperature');
-    }
-    const json = await response.json();
-    // Assume the current temperature is the first value.
-    return json.hourly.temperature_2m[0];
+    const series = new Map<string, ZoneSeries | Error>();
+    results.forEach((result, chunkIndex) => {
+        chunks[chunkIndex].forEach((zone, i) => {
+            if (result.status === 'rejected') {
+                series.set(zone.id, result.reason as Error);
+                return;
+            }
+            const { hourly } = result.value[i];
+            const values: ZoneSeries['values'] = {};
+            for (const variable of ZONE_VARIABLES) {
+                values[variable] = hourly[variable];
+            }
+            series.set(zone.id, { startTime: parseLocalTime(hourly.time[0], 0), values });
+        });
+    });
+    return series;
 }
 
 // --------------------
 // Component
 // --------------------
 export default function DynamicGeofencing() {
-    // Get the user's location from your custom hook.
-    const { location, errorMsg } = useLocation();
+    // Get the user's location (or the default city chosen in settings).
+    const { location, city, errorMsg } = useLocation();
+    const cityId = city?.id ?? null;
+    const { settings } = useSettings();
+    const format = useFormatter();
+    const styles = useStyles();
+    const colors = useThemeColors();
+    const colorScheme = useColorScheme() ?? 'light';
+
+    // Every zone fetched so far, keyed by tile; `zones` holds only the visible ones.
+    const zoneCacheRef = useRef<Map<string, Zone>>(new Map());
+    const visibleKeysRef = useRef<string[]>([]);
+    const pendingFetchesRef = useRef(0);
+    const mapRef = useRef<MapView>(null);
+    // The manual city (null for the device) the map was last centered on.
+    const placedForCityRef = useRef<string | null | undefined>(undefined);
 
-    // State for zones, loading, and any temperature-fetch errors.
     const [zones, setZones] = useState<Zone[]>([]);
-    const [loading, setLoading] = useState(true);
-    const [error, setError] = useState<string | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [initialRegion, setInitialRegion] = useState<Region | null>(null);
+    const [layerId, setLayerId] = useState<MapLayerId>('temperature');
+    const layer = getMapLayer(layerId);
+    const layerStops = getLayerStops(layer, settings.temperaturePalette);
+
+    // Timeline state: hours ahead of the current hour being shown.
+    const [hourOffset, setHourOffset] = useState(0);
+    const [timelineRange, setTimelineRange] = useState(TIMELINE_RANGES[0]);
+    const [playing, setPlaying] = useState(false);
+    const selectedTime = Math.floor(Date.now() / HOUR_MS) * HOUR_MS + hourOffset * HOUR_MS;
+
+    // Advance one hour per tick while playing, looping back to now at the end.
+    useEffect(() => {
+        if (!playing) return;
+        const interval = setInterval(() => {
+            setHourOffset((prev) => (prev >= timelineRange ? 0 : prev + 1));
+        }, PLAYBACK_INTERVAL_MS);
+        return () => clearInterval(interval);
+    }, [playing, timelineRange]);
+
+    const cycleTimelineRange = () => {
+        const next = TIMELINE_RANGES[(TIMELINE_RANGES.indexOf(timelineRange) + 1) % TIMELINE_RANGES.length];
+        setTimelineRange(next);
+        setHourOffset((prev) => Math.min(prev, next));
+    };
+
+    /**
+     * Describes the selected hour in the device's local time, e.g. "+5h · Tue 14:00".
+     */
+    const timelineLabel = (() => {
+        if (hourOffset === 0) return format.t('time.now');
+        const date = new Date(selectedTime);
+        const pad = (n: number) => n.toString().padStart(2, '0');
+        const localIso = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:00`;
+        return format.t('map.timeline', {
+            hours: hourOffset,
+            weekday: format.weekday(localIso),
+            time: format.time(localIso),
+        });
+    })();
 
-    // Ref for counting API calls.
-    const apiCallCountRef = useRef<number>(0);
-    const incrementCallCount = () => {
-        apiCallCountRef.current += 1;
+    /**
+     * Formats a value of the selected layer, converting from the API's
+     * default units to the user's preferences.
+     */
+    const formatLayerValue = (value: number): string => {
+        switch (layer.valueKind) {
+            case 'temperature':
+                return format.temperature(value, 'celsius');
+            case 'precipitation':
+                return format.precipitation(value, 'mm');
+            case 'windSpeed':
+                return format.windSpeed(value, 'kmh');
+            case 'percent':
+                return format.percent(value);
+            case 'index':
+                return format.number(value, 1);
+        }
     };
 
-    // Log and reset API call counter every minute.
-    useEffect(() => {
-        const logInterval = setInterval(() => {
-            console.log(`API calls in the last minute: ${apiCallCountRef.current}`);
-            apiCallCountRef.current = 0;
-        }, 60000);
-        return () => clearInterval(logInterval);
+    const showVisibleZones = useCallback(() => {
+        const cache = zoneCacheRef.current;
+        setZones(visibleKeysRef.current.flatMap((key) => cache.get(key) ?? []));
     }, []);
 
     /**
-     * Fetches and updates temperatures for the given zones.
+     * Fetches and updates values for the given zones. Zones whose request
+     * failed are flagged as errored and retried on the next pass.
      */
-    async function fetchZoneTemperatures(zonesToUpdate: Zone[]) {
-        try {
-            const updatedZones = await Promise.all(
-                zonesToUpdate.map(async (zone) => {
-                    const centroid = computeCentroid(zone.coordinates);
-                    const temp = await fetchTemperatureForZone(
-                        centroid.latitude,
-                        centroid.longitude,
-                        incrementCallCount
+    const updateZoneValues = useCallback(
+        async (zonesToUpdate: Zone[]) => {
+            if (zonesToUpdate.length === 0) return;
+            pendingFetchesRef.current += 1;
+            setLoading(true);
+
+            try {
+                const results = await fetchZoneSeries(zonesToUpdate);
+                const cache = zoneCacheRef.current;
+                const now = Date.now();
+                results.forEach((result, key) => {
+                    const zone = cache.get(key);
+                    if (!zone) return; // Evicted while the request was in flight.
+                    cache.set(
+                        key,
+                        result instanceof Error
+                            ? { ...zone, status: 'error' }
+                            : { ...zone, series: result, status: 'ready', fetchedAt: now }
                     );
-                    return { ...zone, temperature: temp };
-                })
-            );
-            setZones(updatedZones);
-        } catch (err: any) {
-            setError(err.message || 'Error fetching temperatures');
-        } finally {
-            setLoading(false);
-        }
-    }
+                });
+            } catch (err) {
+                console.warn('Error updating zone values:', err);
+            } finally {
+                pendingFetchesRef.current -= 1;
+                setLoading(pendingFetchesRef.current > 0);
+                showVisibleZones();
+            }
+        },
+        [showVisibleZones]
+    );
 
     /**
-     * When the user's location becomes available, generate the grid so that
-     * it is centered on the location. Then fetch the initial temperatures.
+     * Rebuilds the grid for the visible region. Cells already in the cache
+     * are reused; new, errored and expired cells are fetched.
      */
-    useEffect(() => {
-        if (location) {
-            // Calculate the bottom-left corner so that the grid is centered.
-            const latStart = location.latitude - (numberOfRows * latStep) / 2;
-            const lonStart = location.longitude - (numberOfColumns * lonStep) / 2;
-            const initialZones = generateZones(latStart, lonStart);
-            setZones(initialZones);
-            fetchZoneTemperatures(initialZones);
-        }
-    }, [location]);
+    const handleRegionChange = useCallback(
+        (region: Region) => {
+            const cache = zoneCacheRef.current;
+            const maxAge = settings.gridRefreshMinutes * 60000;
+            const now = Date.now();
+            const tiles = getVisibleTiles(region);
+            const toFetch: Zone[] = [];
+
+            for (const tile of tiles) {
+                const cached = cache.get(tile.key);
+                if (!cached) {
+                    const zone = zoneFromTile(tile);
+                    cache.set(tile.key, zone);
+                    toFetch.push(zone);
+                } else if (cached.status === 'error' || (cached.fetchedAt && now - cached.fetchedAt > maxAge)) {
+                    toFetch.push(cached);
+                }
+            }
+
+            visibleKeysRef.current = tiles.map((tile) => tile.key);
+
+            // Evict the oldest off-screen cells once the cache is full.
+            const visible = new Set(visibleKeysRef.current);
+            for (const key of cache.keys()) {
+                if (cache.size <= MAX_CACHED_ZONES) break;
+                if (!visible.has(key)) cache.delete(key);
+            }
+
+            showVisibleZones();
+            updateZoneValues(toFetch);
+        },
+        [settings.gridRefreshMinutes, showVisibleZones, updateZoneValues]
+    );
 
     /**
-     * Poll for updated zone temperatures every minute.
+     * When the location first becomes available, or the manual city
+     * changes, move the map there and build the grid for that viewport.
+     * Later device moves leave the map where the user panned it.
      */
     useEffect(() => {
-        if (location && zones.length > 0) {
-            const interval = setInterval(() => {
-                // Use the current zones to update temperatures.
-                fetchZoneTemperatures(zones);
-            }, 1200000);
-            return () => clearInterval(interval);
-        }
-    }, [location, zones]);
+        if (!location || placedForCityRef.current === cityId) return;
+        placedForCityRef.current = cityId;
+        const region: Region = {
+            latitude: location.latitude,
+            longitude: location.longitude,
+            latitudeDelta: INITIAL_DELTA,
+            longitudeDelta: INITIAL_DELTA,
+        };
+        setInitialRegion((prev) => prev ?? region);
+        mapRef.current?.animateToRegion(region);
+        handleRegionChange(region);
+    }, [location, cityId, handleRegionChange]);
 
-    // If the location is not yet available, show a loading indicator.
-    if (!location) {
-        return (
-            <View style={styles.container}>
-                <ActivityIndicator size="large" />
-                <Text>Fetching your location...</Text>
-            </View>
-        );
-    }
+    /**
+     * Poll for updated zone temperatures at the interval chosen in settings.
+     */
+    useEffect(() => {
+        const interval = setInterval(() => {
+            const cache = zoneCacheRef.current;
+            updateZoneValues(visibleKeysRef.current.flatMap((key) => cache.get(key) ?? []));
+        }, settings.gridRefreshMinutes * 60000);
+        return () => clearInterval(interval);
+    }, [settings.gridRefreshMinutes, updateZoneValues]);
 
     // Show any location error message.
     if (errorMsg) {
         return (
             <View style={styles.container}>
-                <Text>Error: {errorMsg}</Text>
+                <LocationPrompt />
             </View>
         );
     }
 
-    // Optionally, display temperature-fetch errors.
-    if (error) {
+    // If the location is not yet available, show a loading indicator.
+    if (!location || !initialRegion) {
         return (
             <View style={styles.container}>
-                <Text>Error: {error}</Text>
+                <ActivityIndicator size="large" />
+                <Text style={styles.text}>{format.t('location.fetching')}</Text>
             </View>
         );
     }
 
-    // Define the map region centered on the user's location.
-    const mapRegion: Region = {
-        latitude: location.latitude,
-        longitude: location.longitude,
-        latitudeDelta: 0.2,
-        longitudeDelta: 0.2,
-    };
+    const failedZoneCount = zones.filter((zone) => zone.status === 'error').length;
 
     return (
-        <MapView style={styles.map} region={mapRegion}>
-            {zones.map((zone) => (
-                <Polygon
-                    key={zone.id}
-                    coordinates={zone.coordinates}
-                    fillColor={getTemperatureColor(zone.temperature)}
-                    strokeColor="rgba(0,0,0,0.09)"
+        <View style={styles.map}>
+            <MapView
+                ref={mapRef}
+                style={styles.map}
+                initialRegion={initialRegion}
+                {...getMapAppearance(colorScheme)}
+                onRegionChangeComplete={handleRegionChange}
+            >
+                {zones.map((zone) => (
+                    <Polygon
+                        key={zone.id}
+                        coordinates={zone.coordinates}
+                        fillColor={getScaleColor(layerStops, getZoneValue(zone, layer.variable, selectedTime), settings.mapOpacity)}
+                        strokeColor={colors.mapGridLine}
+                    />
+                ))}
+
+                {zones.map((zone) => {
+                    const value = getZoneValue(zone, layer.variable, selectedTime);
+                    const weatherCode = getZoneValue(zone, 'weather_code', selectedTime);
+                    return (
+                        <Marker key={`marker-${zone.id}`} coordinate={zone.center}>
+                            {/* Custom view to display the condition and the layer's value instead of a red pin */}
+                            <View style={styles.tempContainer}>
+                                {weatherCode !== null && (
+                                    <WeatherIcon
+                                        code={weatherCode}
+                                        isDay={getZoneValue(zone, 'is_day', selectedTime) !== 0}
+                                        size={14}
+                                        color={colors.text}
+                                        style={styles.zoneIcon}
+                                    />
+                                )}
+                                <Text style={styles.tempText}>
+                                    {value !== null
+                                        ? formatLayerValue(value)
+                                        : zone.status === 'error'
+                                          ? format.t('common.notAvailable')
+                                          : format.t('common.loading')}
+                                </Text>
+                            </View>
+                        </Marker>
+                    );
+                })}
+            </MapView>
+
+            {/* Status banner: fetches in progress and any zones whose request failed */}
+            {(loading || failedZoneCount > 0) && (
+                <View style={styles.statusBanner}>
+                    {loading ? (
+                        <ActivityIndicator size="small" />
+                    ) : (
+                        <Text style={styles.statusText}>
+                            {format.t('map.zonesFailed', { failed: failedZoneCount, total: zones.length })}
+                        </Text>
+                    )}
+                </View>
+            )}
+
+            {/* Legend for the selected layer */}
+            <View style={styles.legend}>
+                <MapLegend
+                    title={format.t(layer.labelKey)}
+                    stops={layerStops}
+                    formatValue={formatLayerValue}
+                    opacity={settings.mapOpacity}
                 />
-            ))}
-
-            {zones.map((zone) => {
-                const centroid = computeCentroid(zone.coordinates);
-                return (
-                    <Marker key={`marker-${zone.id}`} coordinate={centroid}>
-                        {/* Custom view to display temperature instead of a red pin */}
-                        <View style={styles.tempContainer}>
-                            <Text style={styles.tempText}>
-                                {zone.temperature !== null ? `${zone.temperature}°C` : 'Loading...'}
+            </View>
+
+            {/* Timeline */}
+            <View style={styles.scrubber}>
+                <TimeScrubber
+                    value={hourOffset}
+                    steps={timelineRange}
+                    onChange={(value) => {
+                        setPlaying(false);
+                        setHourOffset(value);
+                    }}
+                    playing={playing}
+                    onTogglePlay={() => setPlaying((prev) => !prev)}
+                    label={timelineLabel}
+                    onCycleRange={cycleTimelineRange}
+                />
+            </View>
+
+            {/* Layer picker */}
+            <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                style={styles.layerPicker}
+                contentContainerStyle={styles.layerPickerContent}
+            >
+                {MAP_LAYERS.map((option) => {
+                    const isSelected = option.id === layerId;
+                    return (
+                        <TouchableOpacity
+                            key={option.id}
+                            style={[styles.layerChip, isSelected && styles.layerChipSelected]}
+                            onPress={() => setLayerId(option.id)}
+                        >
+                            <Text style={[styles.layerChipText, isSelected && styles.layerChipTextSelected]}>
+                                {format.t(option.labelKey)}
                             </Text>
-                        </View>
-                    </Marker>
-                );
-            })}
-        </MapView>
+                        </TouchableOpacity>
+                    );
+                })}
+            </ScrollView>
+        </View>
     );
 }
 
 // --------------------
 // Styles
 // --------------------
-const styles = StyleSheet.create({
+const useStyles = createThemedStyles((colors) => ({
     container: {
         flex: 1,
         alignItems: 'center',
         justifyContent: 'center',
+        backgroundColor: colors.background,
+    },
+    text: {
+        color: colors.text,
     },
     map: {
         flex: 1,
     },
+    statusBanner: {
+        position: 'absolute',
+        top: 10,
+        alignSelf: 'center',
+        backgroundColor: colors.overlay,
+        borderRadius: 8,
+        padding: 8,
+        zIndex: 100,
+    },
+    statusText: {
+        fontSize: 12,
+        color: colors.warning,
+    },
+    legend: {
+        position: 'absolute',
+        bottom: 128,
+        left: 10,
+        zIndex: 100,
+    },
+    scrubber: {
+        position: 'absolute',
+        bottom: 56,
+        left: 10,
+        right: 10,
+        zIndex: 100,
+    },
+    layerPicker: {
+        position: 'absolute',
+        bottom: 10,
+        left: 0,
+        right: 0,
+        zIndex: 100,
+    },
+    layerPickerContent: {
+        paddingHorizontal: 10,
+    },
+    layerChip: {
+        backgroundColor: colors.overlay,
+        borderRadius: 16,
+        paddingVertical: 6,
+        paddingHorizontal: 12,
+        marginRight: 8,
+        borderWidth: 1,
+        borderColor: colors.accent,
+    },
+    layerChipSelected: {
+        backgroundColor: colors.accent,
+    },
+    layerChipText: {
+        fontSize: 14,
+        color: colors.accent,
+    },
+    layerChipTextSelected: {
+        color: colors.onAccent,
+    },
     tempContainer: {
-        backgroundColor: 'rgba(255, 255, 255, 0.8)',
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: colors.overlay,
         paddingHorizontal: 5,
         paddingVertical: 3,
         borderRadius: 5,
-        borderColor: '#000',
+        borderColor: colors.text,
         borderWidth: 1,
     },
+    zoneIcon: {
+        marginRight: 3,
+    },
     tempText: {
         fontSize: 12,
         fontWeight: 'bold',
-        color: '#000',
+        color: colors.text,
     },
-});
\ No newline at end of file
+}));
@@ -1,4 +1,4 @@
-import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
+import { DarkTheme, DefaultTheme, Theme, ThemeProvider } from '@react-navigation/native';
 import { useFonts } from 'expo-font';
 import { Stack } from 'expo-router';
 import * as SplashScreen from 'expo-splash-screen';
@@ -6,13 +6,65 @@ import { StatusBar } from 'expo-status-bar';
 import { useEffect } from 'react';
 import 'react-native-reanimated';
 
+import { Colors } from '@/constants/Colors';
+import { LocationProvider } from '@/contexts/LocationContext';
+import { SavedCitiesProvider } from '@/contexts/SavedCitiesContext';
+import { SettingsProvider } from '@/contexts/SettingsContext';
 import { useColorScheme } from '@/hooks/useColorScheme';
+import useTranslation from '@/hooks/useTranslation';
+// Defines the background refresh task; must load before the OS can run it.
+import '@/services/backgroundRefresh';
 
 // Prevent the splash screen from auto-hiding before asset loading is complete.
 SplashScreen.preventAutoHideAsync();
 
+/** Navigation themes drawn from our palette so headers and tab bars match the screens. */
+const NAVIGATION_THEMES: Record<'light' | 'dark', Theme> = {
+  light: {
+    ...DefaultTheme,
+    colors: {
+      ...DefaultTheme.colors,
+      primary: Colors.light.accent,
+      background: Colors.light.background,
+      card: Colors.light.background,
+      text: Colors.light.text,
+      border: Colors.light.separator,
+    },
+  },
+  dark: {
+    ...DarkTheme,
+    colors: {
+      ...DarkTheme.colors,
+      primary: Colors.dark.accent,
+      background: Colors.dark.background,
+      card: Colors.dark.surface,
+      text: Colors.dark.text,
+      border: Colors.dark.separator,
+    },
+  },
+};
+
+/**
+ * The app's screens; a separate component so it can read the settings
+ * the providers above it load.
+ */
+function RootStack() {
+  const colorScheme = useColorScheme() ?? 'light';
+  const { t } = useTranslation();
+
+  return (
+    <ThemeProvider value={NAVIGATION_THEMES[colorScheme]}>
+      <Stack>
+        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+        <Stack.Screen name="city/[id]" options={{ headerBackTitle: t('common.back') }} />
+        <Stack.Screen name="+not-found" />
+      </Stack>
+      <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+    </ThemeProvider>
+  );
+}
+
 export default function RootLayout() {
-  const colorScheme = useColorScheme();
   const [loaded] = useFonts({
     SpaceMono: require('../assets/fonts/SpaceMono-Regular.ttf'),
   });
@@ -28,12 +80,12 @@ export default function RootLayout() {
   }
 
   return (
-    <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-      <Stack>
-        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-        <Stack.Screen name="+not-found" />
-      </Stack>
-      <StatusBar style="auto" />
-    </ThemeProvider>
+    <SettingsProvider>
+      <LocationProvider>
+        <SavedCitiesProvider>
+          <RootStack />
+        </SavedCitiesProvider>
+      </LocationProvider>
+    </SettingsProvider>
   );
 }
@@ -0,0 +1,265 @@
+import React from 'react';
+import { View, Text, ActivityIndicator, ScrollView, RefreshControl, TouchableOpacity } from 'react-native';
+import { Stack, useLocalSearchParams } from 'expo-router';
+import useFormatter from '../../hooks/useFormatter';
+import { createThemedStyles } from '../../hooks/useThemeColor';
+import useWeather from '../../hooks/useWeather';
+import { WeatherIcon } from '../../components/WeatherIcon';
+import { findCurrentHourIndex } from '../../services/openMeteo';
+import { getErrorMessageKey } from '../../services/requestError';
+
+/**
+ * Route params passed from the Home tab. expo-router delivers every param
+ * as a string, so the coordinates are parsed below.
+ */
+type CityParams = {
+    id: string;
+    city: string;
+    state?: string;
+    country?: string;
+    latitude: string;
+    longitude: string;
+};
+
+const HOURS_TO_SHOW = 48;
+
+export default function CityDetailScreen() {
+    const params = useLocalSearchParams<CityParams>();
+    const latitude = parseFloat(params.latitude);
+    const longitude = parseFloat(params.longitude);
+    const { data, current, loading, error, lastUpdated, isStale, isRefreshing, refetch } = useWeather(latitude, longitude);
+    const format = useFormatter();
+    const styles = useStyles();
+
+    const title = params.city ?? format.t('city.title');
+    const subtitle = [params.state, params.country].filter(Boolean).join(', ');
+
+    if (Number.isNaN(latitude) || Number.isNaN(longitude)) {
+        return (
+            <View style={styles.centered}>
+                <Stack.Screen options={{ title }} />
+                <Text style={styles.errorText}>{format.t('city.invalidCoordinates')}</Text>
+            </View>
+        );
+    }
+
+    if (error && !data) {
+        return (
+            <View style={styles.centered}>
+                <Stack.Screen options={{ title }} />
+                <Text style={styles.errorText}>{format.t('common.error', { message: format.t(getErrorMessageKey(error)) })}</Text>
+                <TouchableOpacity onPress={refetch} disabled={isRefreshing} style={styles.retryButton}>
+                    {isRefreshing ? (
+                        <ActivityIndicator size="small" />
+                    ) : (
+                        <Text style={styles.retryText}>{format.t('common.tryAgain')}</Text>
+                    )}
+                </TouchableOpacity>
+            </View>
+        );
+    }
+
+    if (loading || !data) {
+        return (
+            <View style={styles.centered}>
+                <Stack.Screen options={{ title }} />
+                <ActivityIndicator size="large" />
+            </View>
+        );
+    }
+
+    // Start the hourly strip at the present hour rather than local midnight.
+    const startIndex = Math.max(0, findCurrentHourIndex(data.hourly.time, data.utc_offset_seconds));
+    const hourlyIndices = data.hourly.time
+        .slice(startIndex, startIndex + HOURS_TO_SHOW)
+        .map((_, offset) => startIndex + offset);
+
+    return (
+        <ScrollView
+            style={styles.screen}
+            contentContainerStyle={styles.container}
+            refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={refetch} />}
+        >
+            <Stack.Screen options={{ title }} />
+
+            {isStale && lastUpdated !== null && (
+                <View style={styles.staleBanner}>
+                    <Text style={styles.staleText}>
+                        {format.t('city.staleData', { time: format.lastUpdated(lastUpdated) })}
+                    </Text>
+                </View>
+            )}
+
+            {/* Summary */}
+            <View style={styles.summary}>
+                <Text style={styles.cityName}>{title}</Text>
+                {subtitle ? <Text style={styles.subtitle}>{subtitle}</Text> : null}
+                {current && (
+                    <>
+                        <WeatherIcon
+                            code={current.weatherCode}
+                            isDay={current.isDay}
+                            size={56}
+                            style={styles.summaryIcon}
+                        />
+                        <Text style={styles.currentTemperature}>{format.temperature(current.temperature)}</Text>
+                        <Text style={styles.subtitle}>{format.condition(current.weatherCode)}</Text>
+                        <Text style={styles.subtitle}>{format.t('weather.feelsLike', { temperature: format.temperature(current.apparentTemperature) })}</Text>
+                    </>
+                )}
+            </View>
+
+            {/* Hourly strip */}
+            <Text style={styles.sectionTitle}>{format.t('city.nextHours', { count: HOURS_TO_SHOW })}</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.hourlyStrip}>
+                {hourlyIndices.map((i) => (
+                    <View key={data.hourly.time[i]} style={styles.hourItem}>
+                        <Text style={styles.hourLabel}>{i === startIndex ? format.t('time.now') : format.time(data.hourly.time[i])}</Text>
+                        <WeatherIcon code={data.hourly.weather_code[i]} isDay={data.hourly.is_day[i] === 1} />
+                        <Text style={styles.hourTemperature}>{format.temperature(data.hourly.temperature_2m[i])}</Text>
+                        <Text style={styles.precipitationText}>{format.percent(data.hourly.precipitation_probability[i])}</Text>
+                    </View>
+                ))}
+            </ScrollView>
+
+            {/* Daily list */}
+            <Text style={styles.sectionTitle}>{format.t('city.dailyForecast')}</Text>
+            {data.daily.time.map((date, i) => (
+                <View key={date} style={styles.dayItem}>
+                    <Text style={styles.dayName}>{i === 0 ? format.t('time.today') : format.weekday(date)}</Text>
+                    <WeatherIcon code={data.daily.weather_code[i]} />
+                    <View style={styles.dayDetails}>
+                        <Text style={styles.dayTemperature}>
+                            {`${format.temperature(data.daily.temperature_2m_max[i])} / ${format.temperature(data.daily.temperature_2m_min[i])}`}
+                        </Text>
+                        <Text style={styles.dayMeta}>
+                            {format.t('city.precipitationChance', { value: format.percent(data.daily.precipitation_probability_max[i]) })}
+                        </Text>
+                        <Text style={styles.dayMeta}>
+                            {`↑ ${format.time(data.daily.sunrise[i])}  ↓ ${format.time(data.daily.sunset[i])}`}
+                        </Text>
+                    </View>
+                </View>
+            ))}
+        </ScrollView>
+    );
+}
+
+const useStyles = createThemedStyles((colors) => ({
+    screen: {
+        flex: 1,
+        backgroundColor: colors.background,
+    },
+    container: {
+        padding: 16,
+        paddingBottom: 32,
+    },
+    centered: {
+        flex: 1,
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: 16,
+        backgroundColor: colors.background,
+    },
+    summary: {
+        alignItems: 'center',
+        marginBottom: 24,
+    },
+    summaryIcon: {
+        marginVertical: 8,
+    },
+    cityName: {
+        color: colors.text,
+        fontSize: 28,
+        fontWeight: 'bold',
+        textAlign: 'center',
+    },
+    subtitle: {
+        fontSize: 16,
+        color: colors.textSecondary,
+    },
+    currentTemperature: {
+        color: colors.text,
+        fontSize: 48,
+        fontWeight: 'bold',
+    },
+    sectionTitle: {
+        color: colors.text,
+        fontSize: 20,
+        fontWeight: 'bold',
+        marginBottom: 8,
+    },
+    hourlyStrip: {
+        marginBottom: 24,
+    },
+    hourItem: {
+        alignItems: 'center',
+        width: 56,
+        paddingVertical: 8,
+        marginRight: 8,
+        borderRadius: 8,
+        backgroundColor: colors.surface,
+    },
+    hourLabel: {
+        fontSize: 12,
+        color: colors.textSecondary,
+        marginBottom: 4,
+    },
+    hourTemperature: {
+        color: colors.text,
+        fontSize: 16,
+        fontWeight: 'bold',
+        marginTop: 4,
+    },
+    precipitationText: {
+        fontSize: 12,
+        color: colors.accent,
+    },
+    dayItem: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: 12,
+        borderBottomWidth: 1,
+        borderBottomColor: colors.border,
+    },
+    dayName: {
+        color: colors.text,
+        fontSize: 18,
+        width: 72,
+    },
+    dayDetails: {
+        flex: 1,
+        alignItems: 'flex-end',
+    },
+    dayTemperature: {
+        color: colors.text,
+        fontSize: 18,
+        fontWeight: 'bold',
+    },
+    dayMeta: {
+        fontSize: 12,
+        color: colors.textSecondary,
+    },
+    errorText: {
+        color: colors.error,
+    },
+    retryButton: {
+        marginTop: 12,
+        padding: 8,
+    },
+    retryText: {
+        fontSize: 16,
+        color: colors.accent,
+    },
+    staleBanner: {
+        backgroundColor: colors.warningBackground,
+        borderRadius: 8,
+        padding: 8,
+        marginBottom: 16,
+    },
+    staleText: {
+        fontSize: 12,
+        fontStyle: 'italic',
+        color: colors.warning,
+    },
+}));
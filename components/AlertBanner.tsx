@@ -0,0 +1,66 @@
+import { Ionicons } from '@expo/vector-icons';
+import { Text, View } from 'react-native';
+
+import useFormatter from '@/hooks/useFormatter';
+import { createThemedStyles, useThemeColors } from '@/hooks/useThemeColor';
+import { LocationAlert } from '@/services/weatherAlerts';
+import { describeAlert, getAlertRule } from '@/utils/weatherAlerts';
+
+export type AlertBannerProps = {
+  alerts: LocationAlert[];
+};
+
+/**
+ * Lists active severe weather alerts, one line per location and rule.
+ * Renders nothing when there are no alerts.
+ */
+export function AlertBanner({ alerts }: AlertBannerProps) {
+  const format = useFormatter();
+  const styles = useStyles();
+  const colors = useThemeColors();
+
+  if (alerts.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Ionicons name="warning" size={18} color={colors.alert} />
+        <Text style={styles.title}>{format.t('alerts.title')}</Text>
+      </View>
+      {alerts.map((alert) => (
+        <Text key={`${alert.city.id}:${alert.eventKey}`} style={styles.item}>
+          <Text style={styles.itemTitle}>{`${format.t(getAlertRule(alert.ruleId).labelKey)} · ${alert.city.city}: `}</Text>
+          {describeAlert(alert, format)}
+        </Text>
+      ))}
+    </View>
+  );
+}
+
+const useStyles = createThemedStyles((colors) => ({
+  container: {
+    backgroundColor: colors.alertBackground,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: colors.alert,
+    marginLeft: 6,
+  },
+  item: {
+    fontSize: 14,
+    color: colors.alertText,
+    marginTop: 2,
+  },
+  itemTitle: {
+    fontWeight: 'bold',
+  },
+}));
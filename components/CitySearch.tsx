@@ -0,0 +1,267 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  NativeSyntheticEvent,
+  Text,
+  TextInput,
+  TextInputKeyPressEventData,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import useGeocoding, { Place } from '@/hooks/useGeocoding';
+import useRecentSearches from '@/hooks/useRecentSearches';
+import { createThemedStyles, useThemeColors } from '@/hooks/useThemeColor';
+import useTranslation from '@/hooks/useTranslation';
+import { Coordinates } from '@/services/openMeteo';
+import { PLACE_TYPE_LABEL_KEYS, highlightMatches, rankPlaces } from '@/utils/placeSearch';
+
+/** Searches start once the query is this long. */
+const MIN_QUERY_LENGTH = 3;
+const DEBOUNCE_MS = 500;
+
+export type CitySearchProps = {
+  onSelect: (place: Place) => void;
+  /** Shows a cancel button that calls this. */
+  onCancel?: () => void;
+  /** Where the user is; nearer places rank higher. */
+  origin?: Coordinates | null;
+  /** Defaults to a localized "Enter city name". */
+  placeholder?: string;
+};
+
+type SearchStatus = 'idle' | 'loading' | 'done' | 'error';
+
+/**
+ * A place search box with a dropdown of ranked results, or of recently
+ * picked places while the query is short. With a hardware keyboard or on
+ * the web, the arrow keys move through the results and Enter picks the
+ * active one; Enter picks the top result on a touch keyboard too.
+ */
+export function CitySearch({ onSelect, onCancel, origin, placeholder }: CitySearchProps) {
+  const { t } = useTranslation();
+  const styles = useStyles();
+  const colors = useThemeColors();
+  const { search, cancelSearch } = useGeocoding();
+  const { recent, addRecent, clearRecent } = useRecentSearches();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<Place[]>([]);
+  const [status, setStatus] = useState<SearchStatus>('idle');
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const trimmed = query.trim();
+  const isSearching = trimmed.length >= MIN_QUERY_LENGTH;
+
+  useEffect(() => {
+    setActiveIndex(0);
+    if (!isSearching) {
+      setResults([]);
+      setStatus('idle');
+      return;
+    }
+
+    // Results of a query the user has typed past must never show up.
+    let cancelled = false;
+    setStatus('loading');
+    const timer = setTimeout(async () => {
+      try {
+        const places = await search(trimmed);
+        if (cancelled) return;
+        setResults(places);
+        setStatus('done');
+      } catch (error) {
+        // A newer search replaced this one; its results will follow.
+        if (cancelled || (error as Error).name === 'AbortError') return;
+        console.error('Error fetching suggestions:', error);
+        setResults([]);
+        setStatus('error');
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      cancelSearch();
+    };
+  }, [trimmed, isSearching, search, cancelSearch]);
+
+  const ranked = useMemo(() => rankPlaces(results, origin), [results, origin]);
+  const items = isSearching ? ranked : recent;
+
+  const select = (place: Place) => {
+    addRecent(place);
+    setQuery('');
+    onSelect(place);
+  };
+
+  const handleKeyPress = ({ nativeEvent }: NativeSyntheticEvent<TextInputKeyPressEventData>) => {
+    if (items.length === 0) return;
+    if (nativeEvent.key === 'ArrowDown') setActiveIndex((index) => Math.min(index + 1, items.length - 1));
+    if (nativeEvent.key === 'ArrowUp') setActiveIndex((index) => Math.max(index - 1, 0));
+  };
+
+  const handleSubmit = () => {
+    const place = items[activeIndex];
+    if (place) select(place);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.inputRow}>
+        <TextInput
+          style={styles.input}
+          placeholder={placeholder ?? t('search.placeholder')}
+          placeholderTextColor={colors.textSecondary}
+          value={query}
+          onChangeText={setQuery}
+          onKeyPress={handleKeyPress}
+          onSubmitEditing={handleSubmit}
+          returnKeyType="search"
+          autoCorrect={false}
+          autoFocus
+        />
+        {status === 'loading' && <ActivityIndicator size="small" style={styles.spinner} />}
+        {onCancel && (
+          <TouchableOpacity onPress={onCancel} style={styles.cancelButton}>
+            <Text style={styles.cancelButtonText}>X</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {!isSearching && recent.length > 0 && (
+        <View style={styles.recentHeader}>
+          <Text style={styles.recentTitle}>{t('search.recent')}</Text>
+          <TouchableOpacity onPress={clearRecent}>
+            <Text style={styles.clearText}>{t('common.clear')}</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {items.length > 0 ? (
+        <View style={styles.results}>
+          {items.map((place, index) => (
+            <TouchableOpacity
+              key={place.id}
+              style={[styles.result, index === activeIndex && styles.resultActive]}
+              onPress={() => select(place)}
+            >
+              <Text style={styles.resultName}>
+                {highlightMatches(place.name, isSearching ? trimmed : '').map((segment, i) => (
+                  <Text key={i} style={segment.match ? styles.match : undefined}>
+                    {segment.text}
+                  </Text>
+                ))}
+              </Text>
+              <View style={styles.resultDetails}>
+                <Text style={styles.resultRegion} numberOfLines={1}>
+                  {[place.state, place.country].filter(Boolean).join(', ')}
+                </Text>
+                <Text style={styles.typeBadge}>{t(PLACE_TYPE_LABEL_KEYS[place.type])}</Text>
+              </View>
+            </TouchableOpacity>
+          ))}
+        </View>
+      ) : status === 'done' ? (
+        <Text style={styles.message}>{t('search.noResults', { query: trimmed })}</Text>
+      ) : status === 'error' ? (
+        <Text style={styles.errorText}>{t('search.unavailable')}</Text>
+      ) : null}
+    </View>
+  );
+}
+
+const useStyles = createThemedStyles((colors) => ({
+  container: {
+    marginBottom: 16,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  input: {
+    color: colors.text,
+    flex: 1,
+    height: 40,
+    borderColor: colors.border,
+    borderWidth: 1,
+    borderRadius: 5,
+    paddingHorizontal: 8,
+  },
+  spinner: {
+    marginLeft: 8,
+  },
+  cancelButton: {
+    marginLeft: 8,
+    backgroundColor: colors.destructive,
+    padding: 8,
+    borderRadius: 5,
+  },
+  cancelButtonText: {
+    color: colors.onAccent,
+    fontWeight: 'bold',
+  },
+  recentHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  recentTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: colors.textSecondary,
+  },
+  clearText: {
+    fontSize: 14,
+    color: colors.accent,
+  },
+  results: {
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 5,
+    marginTop: 8,
+  },
+  result: {
+    padding: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.separator,
+  },
+  resultActive: {
+    backgroundColor: colors.highlight,
+  },
+  resultName: {
+    color: colors.text,
+    fontSize: 16,
+  },
+  match: {
+    fontWeight: 'bold',
+  },
+  resultDetails: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 2,
+  },
+  resultRegion: {
+    flexShrink: 1,
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  typeBadge: {
+    marginLeft: 8,
+    paddingHorizontal: 6,
+    borderRadius: 4,
+    overflow: 'hidden',
+    fontSize: 12,
+    color: colors.textSecondary,
+    backgroundColor: colors.badge,
+  },
+  message: {
+    marginTop: 8,
+    fontStyle: 'italic',
+    color: colors.textSecondary,
+  },
+  errorText: {
+    marginTop: 8,
+    color: colors.error,
+  },
+}));
@@ -0,0 +1,42 @@
+import { Button, Text, View } from 'react-native';
+
+import { useLocation } from '@/contexts/LocationContext';
+import { createThemedStyles } from '@/hooks/useThemeColor';
+import useTranslation from '@/hooks/useTranslation';
+import { describeLocationStatus } from '@/services/location';
+
+/**
+ * Explains why the device location is unavailable and offers the fix:
+ * asking again, or opening the settings once the app may no longer ask.
+ * Renders nothing while location access is fine, even if a manual
+ * location is set, so screens decide when the device location matters.
+ */
+export function LocationPrompt() {
+  const { status, requestLocation } = useLocation();
+  const { t } = useTranslation();
+  const styles = useStyles();
+  const message = describeLocationStatus(status, t);
+
+  if (!message) return null;
+
+  const opensSettings = status === 'blocked' || status === 'servicesDisabled';
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.message}>{message}</Text>
+      <Button title={opensSettings ? t('location.openSettings') : t('common.tryAgain')} onPress={requestLocation} />
+    </View>
+  );
+}
+
+const useStyles = createThemedStyles((colors) => ({
+  container: {
+    alignItems: 'center',
+    padding: 16,
+  },
+  message: {
+    color: colors.error,
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+}));
@@ -0,0 +1,76 @@
+import { Text, View } from 'react-native';
+
+import { createThemedStyles } from '@/hooks/useThemeColor';
+import { ColorStop, interpolateColor, rgbaFromColor } from '@/utils/colorScale';
+
+export type MapLegendProps = {
+  title: string;
+  stops: ColorStop[];
+  /** Formats the scale's end values for the labels. */
+  formatValue: (value: number) => string;
+  /** Number of color swatches drawn along the bar. */
+  steps?: number;
+  /** Swatch opacity, to match the fill used on the map. */
+  opacity?: number;
+};
+
+/**
+ * A horizontal color bar explaining a map layer's scale, labelled with
+ * the lowest and highest stop values.
+ */
+export function MapLegend({ title, stops, formatValue, steps = 12, opacity = 1 }: MapLegendProps) {
+  const styles = useStyles();
+  const min = stops[0].value;
+  const max = stops[stops.length - 1].value;
+  const swatches = Array.from({ length: steps }, (_, i) =>
+    rgbaFromColor(interpolateColor(stops, min + ((max - min) * i) / (steps - 1)), opacity)
+  );
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>{title}</Text>
+      <View style={styles.bar}>
+        {swatches.map((color, i) => (
+          <View key={i} style={[styles.swatch, { backgroundColor: color }]} />
+        ))}
+      </View>
+      <View style={styles.labels}>
+        <Text style={styles.label}>{formatValue(min)}</Text>
+        <Text style={styles.label}>{formatValue(max)}</Text>
+      </View>
+    </View>
+  );
+}
+
+const useStyles = createThemedStyles((colors) => ({
+  container: {
+    backgroundColor: colors.overlay,
+    borderRadius: 8,
+    padding: 8,
+    width: 180,
+  },
+  title: {
+    color: colors.text,
+    fontSize: 12,
+    fontWeight: 'bold',
+    marginBottom: 4,
+  },
+  bar: {
+    flexDirection: 'row',
+    height: 10,
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  swatch: {
+    flex: 1,
+  },
+  labels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 2,
+  },
+  label: {
+    color: colors.text,
+    fontSize: 11,
+  },
+}));
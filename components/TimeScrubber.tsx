@@ -0,0 +1,134 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useState } from 'react';
+import { GestureResponderEvent, Text, TouchableOpacity, View } from 'react-native';
+
+import { createThemedStyles, useThemeColors } from '@/hooks/useThemeColor';
+
+export type TimeScrubberProps = {
+  /** Selected step, from 0 to `steps`. */
+  value: number;
+  steps: number;
+  onChange: (value: number) => void;
+  playing: boolean;
+  onTogglePlay: () => void;
+  /** Text describing the selected step, e.g. "Tue 14:00". */
+  label: string;
+  /** Tapped to switch the timeline length; shown as e.g. "48h". */
+  onCycleRange?: () => void;
+};
+
+/**
+ * A play button and a draggable timeline for stepping through forecast
+ * hours. The track handles touches itself, so no slider dependency is
+ * needed.
+ */
+export function TimeScrubber({
+  value,
+  steps,
+  onChange,
+  playing,
+  onTogglePlay,
+  label,
+  onCycleRange,
+}: TimeScrubberProps) {
+  const styles = useStyles();
+  const colors = useThemeColors();
+  const [trackWidth, setTrackWidth] = useState(0);
+
+  const selectAt = (event: GestureResponderEvent) => {
+    if (trackWidth === 0) return;
+    const fraction = Math.min(Math.max(event.nativeEvent.locationX / trackWidth, 0), 1);
+    const next = Math.round(fraction * steps);
+    if (next !== value) onChange(next);
+  };
+
+  const progress = steps === 0 ? 0 : value / steps;
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity onPress={onTogglePlay} style={styles.playButton}>
+        <Ionicons name={playing ? 'pause' : 'play'} size={20} color={colors.accent} />
+      </TouchableOpacity>
+      <View style={styles.timeline}>
+        <View style={styles.header}>
+          <Text style={styles.label}>{label}</Text>
+          {onCycleRange && (
+            <TouchableOpacity onPress={onCycleRange}>
+              <Text style={styles.range}>{`${steps}h`}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        <View
+          style={styles.track}
+          onLayout={(event) => setTrackWidth(event.nativeEvent.layout.width)}
+          onStartShouldSetResponder={() => true}
+          onMoveShouldSetResponder={() => true}
+          onResponderGrant={selectAt}
+          onResponderMove={selectAt}
+        >
+          {/* Children ignore touches so locationX is always relative to the track. */}
+          <View pointerEvents="none" style={styles.rail} />
+          <View pointerEvents="none" style={[styles.fill, { width: `${progress * 100}%` }]} />
+          <View pointerEvents="none" style={[styles.thumb, { left: progress * trackWidth - 8 }]} />
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const useStyles = createThemedStyles((colors) => ({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.overlay,
+    borderRadius: 8,
+    padding: 8,
+  },
+  playButton: {
+    padding: 6,
+    marginRight: 8,
+  },
+  timeline: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  label: {
+    color: colors.text,
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  range: {
+    fontSize: 12,
+    color: colors.accent,
+  },
+  track: {
+    height: 24,
+    justifyContent: 'center',
+  },
+  rail: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: colors.border,
+  },
+  fill: {
+    position: 'absolute',
+    left: 0,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: colors.accent,
+  },
+  thumb: {
+    position: 'absolute',
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+    backgroundColor: colors.accent,
+  },
+}));
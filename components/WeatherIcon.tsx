@@ -0,0 +1,24 @@
+import { Ionicons } from '@expo/vector-icons';
+import { StyleProp, TextStyle } from 'react-native';
+
+import { useThemeColors } from '@/hooks/useThemeColor';
+import { getConditionSeverity, getWeatherIcon } from '@/utils/weatherConditions';
+
+export type WeatherIconProps = {
+  /** The WMO weather_code to depict. */
+  code: number;
+  isDay?: boolean;
+  size?: number;
+  /** Defaults to the theme's accent color, or its alert color for severe conditions. */
+  color?: string;
+  style?: StyleProp<TextStyle>;
+};
+
+/**
+ * The Ionicons glyph for a weather condition, with night variants.
+ */
+export function WeatherIcon({ code, isDay = true, size = 24, color, style }: WeatherIconProps) {
+  const colors = useThemeColors();
+  const defaultColor = getConditionSeverity(code) === 'severe' ? colors.alert : colors.accent;
+  return <Ionicons name={getWeatherIcon(code, isDay)} size={size} color={color ?? defaultColor} style={style} />;
+}
@@ -13,6 +13,23 @@ const MAPPING = {
   'paperplane.fill': 'send',
   'chevron.left.forwardslash.chevron.right': 'code',
   'chevron.right': 'chevron-right',
+  // Weather conditions, see getWeatherSymbol in utils/weatherConditions.
+  'sun.max.fill': 'wb-sunny',
+  'moon.stars.fill': 'nightlight',
+  'cloud.sun.fill': 'wb-cloudy',
+  'cloud.moon.fill': 'nights-stay',
+  'cloud.fill': 'cloud',
+  'cloud.fog.fill': 'foggy',
+  'cloud.drizzle.fill': 'grain',
+  'cloud.sleet.fill': 'severe-cold',
+  'cloud.rain.fill': 'water-drop',
+  'cloud.heavyrain.fill': 'umbrella',
+  'cloud.snow.fill': 'ac-unit',
+  'snowflake': 'ac-unit',
+  'cloud.sun.rain.fill': 'umbrella',
+  'cloud.moon.rain.fill': 'umbrella',
+  'cloud.bolt.rain.fill': 'thunderstorm',
+  'cloud.hail.fill': 'thunderstorm',
 } as Partial<
   Record<
     import('expo-symbols').SymbolViewProps['name'],
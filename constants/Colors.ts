@@ -9,7 +9,35 @@ const tintColorDark = '#fff';
 export const Colors = {
   light: {
     text: '#11181C',
+    /** Captions, hints and other de-emphasized text. */
+    textSecondary: '#555',
     background: '#fff',
+    /** Cards and dropdowns that sit on the background. */
+    surface: '#f9f9f9',
+    /** Translucent panels floating over a map. */
+    overlay: 'rgba(255, 255, 255, 0.9)',
+    border: '#ccc',
+    /** Dividers between rows inside a surface. */
+    separator: '#eee',
+    /** Buttons, links, selected segments and icons. */
+    accent: '#007AFF',
+    /** Text and icons drawn on an accent background. */
+    onAccent: '#fff',
+    /** Background of the active item in a list. */
+    highlight: '#e6f0ff',
+    badge: '#e5e5e5',
+    disabled: '#ccc',
+    error: 'red',
+    destructive: '#ff3b30',
+    /** Stale data notices. */
+    warning: '#b36b00',
+    warningBackground: '#fff4e0',
+    /** Severe weather alerts. */
+    alert: '#b00020',
+    alertText: '#5f2120',
+    alertBackground: '#fdecea',
+    /** Outlines of the weather map's grid cells. */
+    mapGridLine: 'rgba(0, 0, 0, 0.09)',
     tint: tintColorLight,
     icon: '#687076',
     tabIconDefault: '#687076',
@@ -17,10 +45,31 @@ export const Colors = {
   },
   dark: {
     text: '#ECEDEE',
+    textSecondary: '#9BA1A6',
     background: '#151718',
+    surface: '#1E2022',
+    overlay: 'rgba(30, 32, 34, 0.9)',
+    border: '#3A3F42',
+    separator: '#2A2E30',
+    accent: '#0A84FF',
+    onAccent: '#fff',
+    highlight: '#1A2F4A',
+    badge: '#2F3336',
+    disabled: '#4A4F52',
+    error: '#FF6961',
+    destructive: '#FF453A',
+    warning: '#FFB340',
+    warningBackground: '#3A2A10',
+    alert: '#FF8A80',
+    alertText: '#F4C7C3',
+    alertBackground: '#3B1F1C',
+    mapGridLine: 'rgba(255, 255, 255, 0.12)',
     tint: tintColorDark,
     icon: '#9BA1A6',
     tabIconDefault: '#9BA1A6',
     tabIconSelected: tintColorDark,
   },
 };
+
+export type ThemeColors = typeof Colors.light;
+export type ThemeColorName = keyof typeof Colors.light & keyof typeof Colors.dark;
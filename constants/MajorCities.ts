@@ -0,0 +1,112 @@
+/**
+ * A small bundled gazetteer of major cities, used for place search and
+ * naming when no geocoding service can be reached. Populations are
+ * rounded metro estimates and only serve to rank matches.
+ */
+
+export interface GazetteerCity {
+    name: string;
+    state?: string;
+    country: string;
+    latitude: number;
+    longitude: number;
+    population: number;
+}
+
+export const MAJOR_CITIES: GazetteerCity[] = [
+    // Europe
+    { name: 'London', state: 'England', country: 'United Kingdom', latitude: 51.5074, longitude: -0.1278, population: 9000000 },
+    { name: 'Manchester', state: 'England', country: 'United Kingdom', latitude: 53.4808, longitude: -2.2426, population: 2800000 },
+    { name: 'Edinburgh', state: 'Scotland', country: 'United Kingdom', latitude: 55.9533, longitude: -3.1883, population: 530000 },
+    { name: 'Dublin', state: 'Leinster', country: 'Ireland', latitude: 53.3498, longitude: -6.2603, population: 1400000 },
+    { name: 'Paris', state: 'Île-de-France', country: 'France', latitude: 48.8566, longitude: 2.3522, population: 11000000 },
+    { name: 'Lyon', state: 'Auvergne-Rhône-Alpes', country: 'France', latitude: 45.764, longitude: 4.8357, population: 2300000 },
+    { name: 'Marseille', state: "Provence-Alpes-Côte d'Azur", country: 'France', latitude: 43.2965, longitude: 5.3698, population: 1800000 },
+    { name: 'Berlin', state: 'Berlin', country: 'Germany', latitude: 52.52, longitude: 13.405, population: 3700000 },
+    { name: 'Hamburg', state: 'Hamburg', country: 'Germany', latitude: 53.5511, longitude: 9.9937, population: 1900000 },
+    { name: 'Munich', state: 'Bavaria', country: 'Germany', latitude: 48.1351, longitude: 11.582, population: 1500000 },
+    { name: 'Frankfurt', state: 'Hesse', country: 'Germany', latitude: 50.1109, longitude: 8.6821, population: 770000 },
+    { name: 'Cologne', state: 'North Rhine-Westphalia', country: 'Germany', latitude: 50.9375, longitude: 6.9603, population: 1100000 },
+    { name: 'Amsterdam', state: 'North Holland', country: 'Netherlands', latitude: 52.3676, longitude: 4.9041, population: 2400000 },
+    { name: 'Brussels', state: 'Brussels-Capital', country: 'Belgium', latitude: 50.8503, longitude: 4.3517, population: 2100000 },
+    { name: 'Zurich', state: 'Zurich', country: 'Switzerland', latitude: 47.3769, longitude: 8.5417, population: 1400000 },
+    { name: 'Geneva', state: 'Geneva', country: 'Switzerland', latitude: 46.2044, longitude: 6.1432, population: 600000 },
+    { name: 'Vienna', state: 'Vienna', country: 'Austria', latitude: 48.2082, longitude: 16.3738, population: 2000000 },
+    { name: 'Prague', state: 'Prague', country: 'Czechia', latitude: 50.0755, longitude: 14.4378, population: 1300000 },
+    { name: 'Warsaw', state: 'Masovia', country: 'Poland', latitude: 52.2297, longitude: 21.0122, population: 1800000 },
+    { name: 'Budapest', state: 'Budapest', country: 'Hungary', latitude: 47.4979, longitude: 19.0402, population: 1700000 },
+    { name: 'Copenhagen', state: 'Capital Region', country: 'Denmark', latitude: 55.6761, longitude: 12.5683, population: 1400000 },
+    { name: 'Stockholm', state: 'Stockholm County', country: 'Sweden', latitude: 59.3293, longitude: 18.0686, population: 1600000 },
+    { name: 'Oslo', state: 'Oslo', country: 'Norway', latitude: 59.9139, longitude: 10.7522, population: 1000000 },
+    { name: 'Helsinki', state: 'Uusimaa', country: 'Finland', latitude: 60.1699, longitude: 24.9384, population: 1300000 },
+    { name: 'Madrid', state: 'Community of Madrid', country: 'Spain', latitude: 40.4168, longitude: -3.7038, population: 6700000 },
+    { name: 'Barcelona', state: 'Catalonia', country: 'Spain', latitude: 41.3874, longitude: 2.1686, population: 5600000 },
+    { name: 'Lisbon', state: 'Lisbon', country: 'Portugal', latitude: 38.7223, longitude: -9.1393, population: 2900000 },
+    { name: 'Rome', state: 'Lazio', country: 'Italy', latitude: 41.9028, longitude: 12.4964, population: 4300000 },
+    { name: 'Milan', state: 'Lombardy', country: 'Italy', latitude: 45.4642, longitude: 9.19, population: 3200000 },
+    { name: 'Naples', state: 'Campania', country: 'Italy', latitude: 40.8518, longitude: 14.2681, population: 3000000 },
+    { name: 'Athens', state: 'Attica', country: 'Greece', latitude: 37.9838, longitude: 23.7275, population: 3200000 },
+    { name: 'Istanbul', state: 'Istanbul', country: 'Türkiye', latitude: 41.0082, longitude: 28.9784, population: 15500000 },
+    { name: 'Moscow', state: 'Moscow', country: 'Russia', latitude: 55.7558, longitude: 37.6173, population: 12600000 },
+    { name: 'Kyiv', state: 'Kyiv', country: 'Ukraine', latitude: 50.4501, longitude: 30.5234, population: 3000000 },
+    // North America
+    { name: 'New York', state: 'New York', country: 'United States', latitude: 40.7128, longitude: -74.006, population: 19000000 },
+    { name: 'Los Angeles', state: 'California', country: 'United States', latitude: 34.0522, longitude: -118.2437, population: 13000000 },
+    { name: 'Chicago', state: 'Illinois', country: 'United States', latitude: 41.8781, longitude: -87.6298, population: 9400000 },
+    { name: 'Houston', state: 'Texas', country: 'United States', latitude: 29.7604, longitude: -95.3698, population: 7100000 },
+    { name: 'Dallas', state: 'Texas', country: 'United States', latitude: 32.7767, longitude: -96.797, population: 7600000 },
+    { name: 'Phoenix', state: 'Arizona', country: 'United States', latitude: 33.4484, longitude: -112.074, population: 4900000 },
+    { name: 'Philadelphia', state: 'Pennsylvania', country: 'United States', latitude: 39.9526, longitude: -75.1652, population: 6200000 },
+    { name: 'Washington', state: 'District of Columbia', country: 'United States', latitude: 38.9072, longitude: -77.0369, population: 6300000 },
+    { name: 'Boston', state: 'Massachusetts', country: 'United States', latitude: 42.3601, longitude: -71.0589, population: 4900000 },
+    { name: 'Atlanta', state: 'Georgia', country: 'United States', latitude: 33.749, longitude: -84.388, population: 6100000 },
+    { name: 'Miami', state: 'Florida', country: 'United States', latitude: 25.7617, longitude: -80.1918, population: 6100000 },
+    { name: 'Denver', state: 'Colorado', country: 'United States', latitude: 39.7392, longitude: -104.9903, population: 2900000 },
+    { name: 'Seattle', state: 'Washington', country: 'United States', latitude: 47.6062, longitude: -122.3321, population: 4000000 },
+    { name: 'San Francisco', state: 'California', country: 'United States', latitude: 37.7749, longitude: -122.4194, population: 4600000 },
+    { name: 'Toronto', state: 'Ontario', country: 'Canada', latitude: 43.6532, longitude: -79.3832, population: 6200000 },
+    { name: 'Montreal', state: 'Quebec', country: 'Canada', latitude: 45.5017, longitude: -73.5673, population: 4300000 },
+    { name: 'Vancouver', state: 'British Columbia', country: 'Canada', latitude: 49.2827, longitude: -123.1207, population: 2600000 },
+    { name: 'Calgary', state: 'Alberta', country: 'Canada', latitude: 51.0447, longitude: -114.0719, population: 1500000 },
+    { name: 'Mexico City', state: 'Mexico City', country: 'Mexico', latitude: 19.4326, longitude: -99.1332, population: 21800000 },
+    // South America
+    { name: 'São Paulo', state: 'São Paulo', country: 'Brazil', latitude: -23.5505, longitude: -46.6333, population: 22000000 },
+    { name: 'Rio de Janeiro', state: 'Rio de Janeiro', country: 'Brazil', latitude: -22.9068, longitude: -43.1729, population: 13500000 },
+    { name: 'Buenos Aires', state: 'Buenos Aires', country: 'Argentina', latitude: -34.6037, longitude: -58.3816, population: 15300000 },
+    { name: 'Santiago', state: 'Santiago Metropolitan', country: 'Chile', latitude: -33.4489, longitude: -70.6693, population: 6800000 },
+    { name: 'Lima', state: 'Lima', country: 'Peru', latitude: -12.0464, longitude: -77.0428, population: 10700000 },
+    { name: 'Bogotá', state: 'Bogotá', country: 'Colombia', latitude: 4.711, longitude: -74.0721, population: 11000000 },
+    // Africa and the Middle East
+    { name: 'Cairo', state: 'Cairo', country: 'Egypt', latitude: 30.0444, longitude: 31.2357, population: 21000000 },
+    { name: 'Lagos', state: 'Lagos', country: 'Nigeria', latitude: 6.5244, longitude: 3.3792, population: 15000000 },
+    { name: 'Nairobi', state: 'Nairobi', country: 'Kenya', latitude: -1.2921, longitude: 36.8219, population: 4900000 },
+    { name: 'Johannesburg', state: 'Gauteng', country: 'South Africa', latitude: -26.2041, longitude: 28.0473, population: 6000000 },
+    { name: 'Cape Town', state: 'Western Cape', country: 'South Africa', latitude: -33.9249, longitude: 18.4241, population: 4800000 },
+    { name: 'Casablanca', state: 'Casablanca-Settat', country: 'Morocco', latitude: 33.5731, longitude: -7.5898, population: 3800000 },
+    { name: 'Dubai', state: 'Dubai', country: 'United Arab Emirates', latitude: 25.2048, longitude: 55.2708, population: 3600000 },
+    { name: 'Riyadh', state: 'Riyadh', country: 'Saudi Arabia', latitude: 24.7136, longitude: 46.6753, population: 7700000 },
+    { name: 'Tel Aviv', state: 'Tel Aviv', country: 'Israel', latitude: 32.0853, longitude: 34.7818, population: 4200000 },
+    { name: 'Tehran', state: 'Tehran', country: 'Iran', latitude: 35.6892, longitude: 51.389, population: 9500000 },
+    // Asia and Oceania
+    { name: 'Tokyo', state: 'Tokyo', country: 'Japan', latitude: 35.6762, longitude: 139.6503, population: 37000000 },
+    { name: 'Osaka', state: 'Osaka', country: 'Japan', latitude: 34.6937, longitude: 135.5023, population: 19000000 },
+    { name: 'Seoul', state: 'Seoul', country: 'South Korea', latitude: 37.5665, longitude: 126.978, population: 25000000 },
+    { name: 'Beijing', state: 'Beijing', country: 'China', latitude: 39.9042, longitude: 116.4074, population: 21500000 },
+    { name: 'Shanghai', state: 'Shanghai', country: 'China', latitude: 31.2304, longitude: 121.4737, population: 28000000 },
+    { name: 'Hong Kong', country: 'Hong Kong', latitude: 22.3193, longitude: 114.1694, population: 7500000 },
+    { name: 'Taipei', state: 'Taipei', country: 'Taiwan', latitude: 25.033, longitude: 121.5654, population: 7000000 },
+    { name: 'Singapore', country: 'Singapore', latitude: 1.3521, longitude: 103.8198, population: 5900000 },
+    { name: 'Bangkok', state: 'Bangkok', country: 'Thailand', latitude: 13.7563, longitude: 100.5018, population: 10900000 },
+    { name: 'Jakarta', state: 'Jakarta', country: 'Indonesia', latitude: -6.2088, longitude: 106.8456, population: 11000000 },
+    { name: 'Manila', state: 'Metro Manila', country: 'Philippines', latitude: 14.5995, longitude: 120.9842, population: 14000000 },
+    { name: 'Mumbai', state: 'Maharashtra', country: 'India', latitude: 19.076, longitude: 72.8777, population: 21000000 },
+    { name: 'Delhi', state: 'Delhi', country: 'India', latitude: 28.7041, longitude: 77.1025, population: 32000000 },
+    { name: 'Bengaluru', state: 'Karnataka', country: 'India', latitude: 12.9716, longitude: 77.5946, population: 13000000 },
+    { name: 'Karachi', state: 'Sindh', country: 'Pakistan', latitude: 24.8607, longitude: 67.0011, population: 17000000 },
+    { name: 'Dhaka', state: 'Dhaka', country: 'Bangladesh', latitude: 23.8103, longitude: 90.4125, population: 23000000 },
+    { name: 'Sydney', state: 'New South Wales', country: 'Australia', latitude: -33.8688, longitude: 151.2093, population: 5300000 },
+    { name: 'Melbourne', state: 'Victoria', country: 'Australia', latitude: -37.8136, longitude: 144.9631, population: 5200000 },
+    { name: 'Brisbane', state: 'Queensland', country: 'Australia', latitude: -27.4698, longitude: 153.0251, population: 2600000 },
+    { name: 'Perth', state: 'Western Australia', country: 'Australia', latitude: -31.9505, longitude: 115.8605, population: 2200000 },
+    { name: 'Auckland', state: 'Auckland', country: 'New Zealand', latitude: -36.8485, longitude: 174.7633, population: 1700000 },
+];
@@ -0,0 +1,111 @@
+/**
+ * Data layers that can be drawn on the geofencing map. Each layer names
+ * the Open-Meteo hourly variable it shows and the color scale used to
+ * paint it. Scale values are in the API's default units (°C, mm, km/h).
+ */
+
+import { HourlyVariable } from '@/services/openMeteo';
+import { ColorStop, TemperaturePaletteId, getTemperaturePalette } from '@/utils/colorScale';
+import { MessageKey } from '@/utils/i18n';
+
+export type MapLayerId = 'temperature' | 'precipitation' | 'windSpeed' | 'cloudCover' | 'humidity' | 'uvIndex';
+
+/** How a layer's values are formatted for display. */
+export type MapLayerValueKind = 'temperature' | 'precipitation' | 'windSpeed' | 'percent' | 'index';
+
+export interface MapLayer {
+    id: MapLayerId;
+    labelKey: MessageKey;
+    variable: HourlyVariable;
+    valueKind: MapLayerValueKind;
+    stops: ColorStop[];
+}
+
+export const MAP_LAYERS: MapLayer[] = [
+    {
+        id: 'temperature',
+        labelKey: 'mapLayer.temperature',
+        variable: 'temperature_2m',
+        valueKind: 'temperature',
+        // Replaced by the user's chosen palette; see getLayerStops.
+        stops: getTemperaturePalette('default').stops,
+    },
+    {
+        id: 'precipitation',
+        labelKey: 'mapLayer.precipitation',
+        variable: 'precipitation',
+        valueKind: 'precipitation',
+        stops: [
+            { value: 0, color: [255, 255, 255] },   // Dry
+            { value: 0.5, color: [173, 216, 230] }, // Light rain
+            { value: 2, color: [65, 105, 225] },    // Moderate rain
+            { value: 5, color: [0, 0, 205] },       // Heavy rain
+            { value: 10, color: [128, 0, 128] },    // Very heavy rain
+        ],
+    },
+    {
+        id: 'windSpeed',
+        labelKey: 'mapLayer.windSpeed',
+        variable: 'wind_speed_10m',
+        valueKind: 'windSpeed',
+        stops: [
+            { value: 0, color: [240, 255, 240] },   // Calm
+            { value: 10, color: [144, 238, 144] },  // Light breeze
+            { value: 25, color: [255, 255, 0] },    // Moderate
+            { value: 40, color: [255, 140, 0] },    // Strong
+            { value: 60, color: [255, 0, 0] },      // Gale
+            { value: 90, color: [139, 0, 139] },    // Storm
+        ],
+    },
+    {
+        id: 'cloudCover',
+        labelKey: 'mapLayer.cloudCover',
+        variable: 'cloud_cover',
+        valueKind: 'percent',
+        stops: [
+            { value: 0, color: [135, 206, 250] },   // Clear sky
+            { value: 50, color: [200, 200, 200] },  // Partly cloudy
+            { value: 100, color: [90, 90, 90] },    // Overcast
+        ],
+    },
+    {
+        id: 'humidity',
+        labelKey: 'mapLayer.humidity',
+        variable: 'relative_humidity_2m',
+        valueKind: 'percent',
+        stops: [
+            { value: 0, color: [210, 180, 140] },   // Dry
+            { value: 40, color: [255, 255, 224] },  // Comfortable
+            { value: 70, color: [102, 205, 170] },  // Humid
+            { value: 100, color: [0, 100, 0] },     // Saturated
+        ],
+    },
+    {
+        id: 'uvIndex',
+        labelKey: 'mapLayer.uvIndex',
+        variable: 'uv_index',
+        valueKind: 'index',
+        stops: [
+            { value: 0, color: [0, 128, 0] },       // Low
+            { value: 3, color: [255, 255, 0] },     // Moderate
+            { value: 6, color: [255, 140, 0] },     // High
+            { value: 8, color: [255, 0, 0] },       // Very high
+            { value: 11, color: [148, 0, 211] },    // Extreme
+        ],
+    },
+];
+
+export function getMapLayer(id: MapLayerId): MapLayer {
+    return MAP_LAYERS.find(layer => layer.id === id) ?? MAP_LAYERS[0];
+}
+
+/** Every variable the layers need, for a single zone request. */
+export const MAP_LAYER_VARIABLES = MAP_LAYERS.map(layer => layer.variable);
+
+/**
+ * The color stops a layer is painted with. The temperature layer follows
+ * the palette chosen in Settings; the others have a single fixed scale.
+ */
+export function getLayerStops(layer: MapLayer, palette: TemperaturePaletteId): ColorStop[] {
+    return layer.id === 'temperature' ? getTemperaturePalette(palette).stops : layer.stops;
+}
@@ -0,0 +1,161 @@
+/**
+ * German UI strings.
+ */
+
+import { Messages } from './en';
+
+const de: Messages = {
+    // Shared
+    'common.loading': 'Wird geladen...',
+    'common.notAvailable': 'k. A.',
+    'common.noData': 'Keine Daten verfügbar',
+    'common.error': 'Fehler: {message}',
+    'common.errorTitle': 'Fehler',
+    'common.tryAgain': 'Erneut versuchen',
+    'common.cancel': 'Abbrechen',
+    'common.clear': 'Löschen',
+    'common.edit': 'Bearbeiten',
+    'common.done': 'Fertig',
+    'common.back': 'Zurück',
+
+    // Request errors
+    'errors.network': 'Der Server ist nicht erreichbar. Prüfe deine Verbindung.',
+    'errors.http': 'Der Server konnte die Anfrage nicht beantworten.',
+    'errors.invalidResponse': 'Der Server hat eine unerwartete Antwort gesendet.',
+    'errors.unknown': 'Etwas ist schiefgelaufen.',
+
+    // Navigation
+    'tabs.home': 'Start',
+    'tabs.forecastMap': 'Vorhersagekarte',
+    'tabs.weather': 'Wetter',
+    'tabs.settings': 'Einstellungen',
+    'notFound.title': 'Hoppla!',
+    'notFound.message': 'Diese Seite gibt es nicht.',
+    'notFound.goHome': 'Zur Startseite!',
+
+    // Relative and calendar time
+    'time.now': 'Jetzt',
+    'time.today': 'Heute',
+    'time.justNow': 'gerade eben',
+    'time.minutesAgo': 'vor {count} Min.',
+    'time.hoursAgo': 'vor {count} Std.',
+    'time.dayAgo': 'vor 1 Tag',
+    'time.daysAgo': 'vor {count} Tagen',
+
+    // Weather shown on several screens
+    'weather.feelsLike': 'Gefühlt {temperature}',
+    'weather.updated': 'Aktualisiert {time}',
+
+    // Home
+    'home.title': 'Wetter',
+    'home.yourLocation': 'Dein Standort',
+    'home.otherCities': 'Weitere Städte',
+    'home.noCities': 'Noch keine Städte hinzugefügt.',
+    'home.unknownCity': 'Unbekannte Stadt',
+
+    // Device location
+    'location.fetching': 'Standort wird ermittelt...',
+    'location.denied': 'Der Zugriff auf den Standort wurde verweigert',
+    'location.blocked': 'Der Standortzugriff ist für diese App deaktiviert. Du kannst ihn in den Einstellungen erlauben.',
+    'location.servicesDisabled': 'Die Ortungsdienste sind auf diesem Gerät deaktiviert.',
+    'location.unavailable': 'Dein Standort konnte nicht ermittelt werden.',
+    'location.openSettings': 'Einstellungen öffnen',
+
+    // City search
+    'search.placeholder': 'Stadtname eingeben',
+    'search.recent': 'Zuletzt gesucht',
+    'search.noResults': 'Keine Orte für „{query}“ gefunden.',
+    'search.unavailable': 'Die Suche ist gerade nicht verfügbar. Prüfe deine Verbindung und versuche es erneut.',
+    'placeType.city': 'Stadt',
+    'placeType.town': 'Kleinstadt',
+    'placeType.village': 'Dorf',
+    'placeType.hamlet': 'Weiler',
+    'placeType.other': 'Ort',
+
+    // Forecast map
+    'forecast.fetchError': 'Fehler beim Laden der Wetterdaten: {message}',
+    'forecast.currentWeather': 'Aktuelles Wetter',
+    'forecast.temperature': 'Temperatur: {value}',
+    'forecast.feelsLike': 'Gefühlt: {value}',
+    'forecast.condition': 'Wetterlage: {value}',
+    'forecast.wind': 'Wind: {value}',
+    'forecast.humidity': 'Luftfeuchtigkeit: {value}',
+    'forecast.recenter': 'Zentrieren',
+    'tracking.follow': 'Folgen',
+    'tracking.followHeading': 'Richtung',
+    'tracking.free': 'Frei',
+
+    // Weather map
+    'map.timeline': '+{hours} Std. · {weekday} {time}',
+    'map.zonesFailed': '{failed} von {total} Zonen konnten nicht geladen werden. Neuer Versuch bei der nächsten Aktualisierung.',
+    'mapLayer.temperature': 'Temperatur',
+    'mapLayer.precipitation': 'Niederschlag',
+    'mapLayer.windSpeed': 'Wind',
+    'mapLayer.cloudCover': 'Wolken',
+    'mapLayer.humidity': 'Luftfeuchtigkeit',
+    'mapLayer.uvIndex': 'UV-Index',
+
+    // City details
+    'city.title': 'Stadt',
+    'city.invalidCoordinates': 'Die Koordinaten dieser Stadt sind ungültig.',
+    'city.staleData': 'Gespeicherte Daten ({time})',
+    'city.nextHours': 'Nächste {count} Stunden',
+    'city.dailyForecast': '7-Tage-Vorhersage',
+    'city.precipitationChance': 'Niederschl. {value}',
+
+    // Severe weather alerts
+    'alerts.title': 'Unwetter',
+    'alerts.windGusts': 'Windböen bis {speed} ab {time}',
+    'alerts.extremeHeat': 'Temperaturen bis {temperature} ab {time}',
+    'alerts.extremeCold': 'Temperaturen bis {temperature} ab {time}',
+    'alerts.expected': '{rule} erwartet ab {time}',
+    'alertRule.thunderstorm': 'Gewitter',
+    'alertRule.heavySnow': 'Starker Schneefall',
+    'alertRule.freezingRain': 'Eisregen',
+    'alertRule.windGusts': 'Starke Windböen',
+    'alertRule.extremeHeat': 'Extreme Hitze',
+    'alertRule.extremeCold': 'Extreme Kälte',
+
+    // Settings
+    'settings.title': 'Einstellungen',
+    'settings.defaultLocation': 'Standardstandort',
+    'settings.source': 'Quelle',
+    'settings.sourceGps': 'GPS',
+    'settings.sourceCity': 'Stadt',
+    'settings.noCitiesHint': 'Füge auf dem Start-Tab eine Stadt hinzu, um sie als Standard zu verwenden.',
+    'settings.units': 'Einheiten',
+    'settings.temperature': 'Temperatur',
+    'settings.windSpeed': 'Windgeschwindigkeit',
+    'settings.precipitation': 'Niederschlag',
+    'settings.timeFormat': 'Zeitformat',
+    'settings.appearance': 'Darstellung',
+    'settings.theme': 'Design',
+    'settings.themeSystem': 'System',
+    'settings.themeLight': 'Hell',
+    'settings.themeDark': 'Dunkel',
+    'settings.language': 'Sprache',
+    'settings.languageSystem': 'System',
+    'settings.weatherMap': 'Wetterkarte',
+    'settings.gridRefresh': 'Raster aktualisieren',
+    'settings.minutes': '{count} Min.',
+    'settings.temperatureColors': 'Temperaturfarben',
+    'settings.overlayOpacity': 'Deckkraft der Ebene',
+    'settings.alerts': 'Unwetterwarnungen',
+    'settings.notifications': 'Mitteilungen',
+    'settings.gustsFrom': 'Böen ab',
+    'settings.heatFrom': 'Hitze ab',
+    'settings.coldFrom': 'Kälte ab',
+    'settings.backgroundRefresh': 'Hintergrundaktualisierung',
+    'settings.backgroundRefreshToggle': 'Vorhersagen im Hintergrund aktualisieren',
+    'settings.backgroundRefreshOff': 'Die Hintergrundaktualisierung ist für diese App in den Systemeinstellungen deaktiviert.',
+    'settings.lastRefreshed': 'Zuletzt aktualisiert {time}.',
+    'settings.notRefreshed': 'Noch nicht im Hintergrund aktualisiert.',
+    'settings.data': 'Daten',
+    'settings.clearCache': 'Zwischengespeicherte Daten löschen',
+    'settings.clearCacheMessage': 'Gespeicherte Vorhersagen, Ortsabfragen und letzte Suchen werden entfernt. Vorhersagen werden bei Bedarf neu geladen.',
+    'palette.default': 'Standard',
+    'palette.colorblind': 'Farbenblind-freundlich',
+    'palette.highContrast': 'Hoher Kontrast',
+};
+
+export default de;
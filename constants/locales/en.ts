@@ -0,0 +1,165 @@
+/**
+ * English UI strings; the source catalog every other language follows.
+ * Placeholders such as `{time}` are filled in by `translate`.
+ */
+
+const en = {
+    // Shared
+    'common.loading': 'Loading...',
+    'common.notAvailable': 'N/A',
+    'common.noData': 'No data available',
+    'common.error': 'Error: {message}',
+    'common.errorTitle': 'Error',
+    'common.tryAgain': 'Try again',
+    'common.cancel': 'Cancel',
+    'common.clear': 'Clear',
+    'common.edit': 'Edit',
+    'common.done': 'Done',
+    'common.back': 'Back',
+
+    // Request errors
+    'errors.network': 'Could not reach the server. Check your connection.',
+    'errors.http': 'The server could not answer the request.',
+    'errors.invalidResponse': 'The server sent an unexpected response.',
+    'errors.unknown': 'Something went wrong.',
+
+    // Navigation
+    'tabs.home': 'Home',
+    'tabs.forecastMap': 'Forecast Map',
+    'tabs.weather': 'Weather',
+    'tabs.settings': 'Settings',
+    'notFound.title': 'Oops!',
+    'notFound.message': "This screen doesn't exist.",
+    'notFound.goHome': 'Go to home screen!',
+
+    // Relative and calendar time
+    'time.now': 'Now',
+    'time.today': 'Today',
+    'time.justNow': 'just now',
+    'time.minutesAgo': '{count} min ago',
+    'time.hoursAgo': '{count} h ago',
+    'time.dayAgo': '1 day ago',
+    'time.daysAgo': '{count} days ago',
+
+    // Weather shown on several screens
+    'weather.feelsLike': 'Feels like {temperature}',
+    'weather.updated': 'Updated {time}',
+
+    // Home
+    'home.title': 'Weather',
+    'home.yourLocation': 'Your Location',
+    'home.otherCities': 'Other Cities',
+    'home.noCities': 'No cities added yet.',
+    'home.unknownCity': 'Unknown City',
+
+    // Device location
+    'location.fetching': 'Fetching your location...',
+    'location.denied': 'Permission to access location was denied',
+    'location.blocked': 'Location access is turned off for this app. You can allow it in Settings.',
+    'location.servicesDisabled': 'Location services are turned off on this device.',
+    'location.unavailable': 'Your location could not be determined.',
+    'location.openSettings': 'Open Settings',
+
+    // City search
+    'search.placeholder': 'Enter city name',
+    'search.recent': 'Recent',
+    'search.noResults': 'No places found for "{query}".',
+    'search.unavailable': 'Search is unavailable right now. Check your connection and try again.',
+    'placeType.city': 'City',
+    'placeType.town': 'Town',
+    'placeType.village': 'Village',
+    'placeType.hamlet': 'Hamlet',
+    'placeType.other': 'Place',
+
+    // Forecast map
+    'forecast.fetchError': 'Error fetching weather data: {message}',
+    'forecast.currentWeather': 'Current Weather',
+    'forecast.temperature': 'Temperature: {value}',
+    'forecast.feelsLike': 'Feels like: {value}',
+    'forecast.condition': 'Condition: {value}',
+    'forecast.wind': 'Wind: {value}',
+    'forecast.humidity': 'Humidity: {value}',
+    'forecast.recenter': 'Recenter',
+    'tracking.follow': 'Follow',
+    'tracking.followHeading': 'Heading',
+    'tracking.free': 'Free',
+
+    // Weather map
+    'map.timeline': '+{hours}h · {weekday} {time}',
+    'map.zonesFailed': "Couldn't load {failed} of {total} zones. Retrying on next refresh.",
+    'mapLayer.temperature': 'Temperature',
+    'mapLayer.precipitation': 'Precipitation',
+    'mapLayer.windSpeed': 'Wind',
+    'mapLayer.cloudCover': 'Clouds',
+    'mapLayer.humidity': 'Humidity',
+    'mapLayer.uvIndex': 'UV index',
+
+    // City details
+    'city.title': 'City',
+    'city.invalidCoordinates': 'Invalid coordinates for this city.',
+    'city.staleData': 'Showing saved data from {time}.',
+    'city.nextHours': 'Next {count} hours',
+    'city.dailyForecast': '7-day forecast',
+    'city.precipitationChance': 'Precip. {value}',
+
+    // Severe weather alerts
+    'alerts.title': 'Severe weather',
+    'alerts.windGusts': 'Wind gusts up to {speed} from {time}',
+    'alerts.extremeHeat': 'Temperatures up to {temperature} from {time}',
+    'alerts.extremeCold': 'Temperatures down to {temperature} from {time}',
+    'alerts.expected': '{rule} expected from {time}',
+    'alertRule.thunderstorm': 'Thunderstorms',
+    'alertRule.heavySnow': 'Heavy snow',
+    'alertRule.freezingRain': 'Freezing rain',
+    'alertRule.windGusts': 'Strong wind gusts',
+    'alertRule.extremeHeat': 'Extreme heat',
+    'alertRule.extremeCold': 'Extreme cold',
+
+    // Settings
+    'settings.title': 'Settings',
+    'settings.defaultLocation': 'Default location',
+    'settings.source': 'Source',
+    'settings.sourceGps': 'GPS',
+    'settings.sourceCity': 'City',
+    'settings.noCitiesHint': 'Add a city on the Home tab to use it as your default.',
+    'settings.units': 'Units',
+    'settings.temperature': 'Temperature',
+    'settings.windSpeed': 'Wind speed',
+    'settings.precipitation': 'Precipitation',
+    'settings.timeFormat': 'Time format',
+    'settings.appearance': 'Appearance',
+    'settings.theme': 'Theme',
+    'settings.themeSystem': 'System',
+    'settings.themeLight': 'Light',
+    'settings.themeDark': 'Dark',
+    'settings.language': 'Language',
+    'settings.languageSystem': 'System',
+    'settings.weatherMap': 'Weather map',
+    'settings.gridRefresh': 'Grid refresh',
+    'settings.minutes': '{count} min',
+    'settings.temperatureColors': 'Temperature colors',
+    'settings.overlayOpacity': 'Overlay opacity',
+    'settings.alerts': 'Severe weather alerts',
+    'settings.notifications': 'Notifications',
+    'settings.gustsFrom': 'Gusts from',
+    'settings.heatFrom': 'Heat from',
+    'settings.coldFrom': 'Cold from',
+    'settings.backgroundRefresh': 'Background refresh',
+    'settings.backgroundRefreshToggle': 'Refresh forecasts in the background',
+    'settings.backgroundRefreshOff': 'Background refresh is turned off for this app in the system settings.',
+    'settings.lastRefreshed': 'Last refreshed {time}.',
+    'settings.notRefreshed': 'Not refreshed in the background yet.',
+    'settings.data': 'Data',
+    'settings.clearCache': 'Clear cached data',
+    'settings.clearCacheMessage': 'Saved forecasts, place lookups and recent searches will be removed. Forecasts are fetched again when needed.',
+    'palette.default': 'Default',
+    'palette.colorblind': 'Colorblind-safe',
+    'palette.highContrast': 'High contrast',
+};
+
+export type MessageKey = keyof typeof en;
+
+/** A complete catalog; other languages must translate every key. */
+export type Messages = Record<MessageKey, string>;
+
+export default en;
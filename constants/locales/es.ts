@@ -0,0 +1,161 @@
+/**
+ * Spanish UI strings.
+ */
+
+import { Messages } from './en';
+
+const es: Messages = {
+    // Shared
+    'common.loading': 'Cargando...',
+    'common.notAvailable': 'N/D',
+    'common.noData': 'No hay datos disponibles',
+    'common.error': 'Error: {message}',
+    'common.errorTitle': 'Error',
+    'common.tryAgain': 'Reintentar',
+    'common.cancel': 'Cancelar',
+    'common.clear': 'Borrar',
+    'common.edit': 'Editar',
+    'common.done': 'Listo',
+    'common.back': 'Atrás',
+
+    // Request errors
+    'errors.network': 'No se pudo conectar con el servidor. Comprueba tu conexión.',
+    'errors.http': 'El servidor no pudo responder a la solicitud.',
+    'errors.invalidResponse': 'El servidor envió una respuesta inesperada.',
+    'errors.unknown': 'Algo salió mal.',
+
+    // Navigation
+    'tabs.home': 'Inicio',
+    'tabs.forecastMap': 'Mapa del pronóstico',
+    'tabs.weather': 'Tiempo',
+    'tabs.settings': 'Ajustes',
+    'notFound.title': '¡Vaya!',
+    'notFound.message': 'Esta pantalla no existe.',
+    'notFound.goHome': '¡Ir a la pantalla de inicio!',
+
+    // Relative and calendar time
+    'time.now': 'Ahora',
+    'time.today': 'Hoy',
+    'time.justNow': 'ahora mismo',
+    'time.minutesAgo': 'hace {count} min',
+    'time.hoursAgo': 'hace {count} h',
+    'time.dayAgo': 'hace 1 día',
+    'time.daysAgo': 'hace {count} días',
+
+    // Weather shown on several screens
+    'weather.feelsLike': 'Sensación de {temperature}',
+    'weather.updated': 'Actualizado {time}',
+
+    // Home
+    'home.title': 'Tiempo',
+    'home.yourLocation': 'Tu ubicación',
+    'home.otherCities': 'Otras ciudades',
+    'home.noCities': 'Aún no has añadido ciudades.',
+    'home.unknownCity': 'Ciudad desconocida',
+
+    // Device location
+    'location.fetching': 'Obteniendo tu ubicación...',
+    'location.denied': 'Se denegó el permiso para acceder a la ubicación',
+    'location.blocked': 'El acceso a la ubicación está desactivado para esta app. Puedes permitirlo en Ajustes.',
+    'location.servicesDisabled': 'Los servicios de ubicación están desactivados en este dispositivo.',
+    'location.unavailable': 'No se pudo determinar tu ubicación.',
+    'location.openSettings': 'Abrir Ajustes',
+
+    // City search
+    'search.placeholder': 'Escribe el nombre de una ciudad',
+    'search.recent': 'Recientes',
+    'search.noResults': 'No se encontraron lugares para "{query}".',
+    'search.unavailable': 'La búsqueda no está disponible ahora. Comprueba tu conexión e inténtalo de nuevo.',
+    'placeType.city': 'Ciudad',
+    'placeType.town': 'Localidad',
+    'placeType.village': 'Pueblo',
+    'placeType.hamlet': 'Aldea',
+    'placeType.other': 'Lugar',
+
+    // Forecast map
+    'forecast.fetchError': 'Error al obtener el tiempo: {message}',
+    'forecast.currentWeather': 'Tiempo actual',
+    'forecast.temperature': 'Temperatura: {value}',
+    'forecast.feelsLike': 'Sensación: {value}',
+    'forecast.condition': 'Estado: {value}',
+    'forecast.wind': 'Viento: {value}',
+    'forecast.humidity': 'Humedad: {value}',
+    'forecast.recenter': 'Centrar',
+    'tracking.follow': 'Seguir',
+    'tracking.followHeading': 'Rumbo',
+    'tracking.free': 'Libre',
+
+    // Weather map
+    'map.timeline': '+{hours} h · {weekday} {time}',
+    'map.zonesFailed': 'No se pudieron cargar {failed} de {total} zonas. Se reintentará en la próxima actualización.',
+    'mapLayer.temperature': 'Temperatura',
+    'mapLayer.precipitation': 'Precipitación',
+    'mapLayer.windSpeed': 'Viento',
+    'mapLayer.cloudCover': 'Nubes',
+    'mapLayer.humidity': 'Humedad',
+    'mapLayer.uvIndex': 'Índice UV',
+
+    // City details
+    'city.title': 'Ciudad',
+    'city.invalidCoordinates': 'Las coordenadas de esta ciudad no son válidas.',
+    'city.staleData': 'Mostrando datos guardados {time}.',
+    'city.nextHours': 'Próximas {count} horas',
+    'city.dailyForecast': 'Pronóstico de 7 días',
+    'city.precipitationChance': 'Precip. {value}',
+
+    // Severe weather alerts
+    'alerts.title': 'Tiempo severo',
+    'alerts.windGusts': 'Rachas de viento de hasta {speed} desde las {time}',
+    'alerts.extremeHeat': 'Temperaturas de hasta {temperature} desde las {time}',
+    'alerts.extremeCold': 'Temperaturas de hasta {temperature} desde las {time}',
+    'alerts.expected': '{rule} previstas desde las {time}',
+    'alertRule.thunderstorm': 'Tormentas',
+    'alertRule.heavySnow': 'Nevadas intensas',
+    'alertRule.freezingRain': 'Lluvia helada',
+    'alertRule.windGusts': 'Rachas de viento fuertes',
+    'alertRule.extremeHeat': 'Calor extremo',
+    'alertRule.extremeCold': 'Frío extremo',
+
+    // Settings
+    'settings.title': 'Ajustes',
+    'settings.defaultLocation': 'Ubicación predeterminada',
+    'settings.source': 'Origen',
+    'settings.sourceGps': 'GPS',
+    'settings.sourceCity': 'Ciudad',
+    'settings.noCitiesHint': 'Añade una ciudad en la pestaña Inicio para usarla como predeterminada.',
+    'settings.units': 'Unidades',
+    'settings.temperature': 'Temperatura',
+    'settings.windSpeed': 'Velocidad del viento',
+    'settings.precipitation': 'Precipitación',
+    'settings.timeFormat': 'Formato de hora',
+    'settings.appearance': 'Apariencia',
+    'settings.theme': 'Tema',
+    'settings.themeSystem': 'Sistema',
+    'settings.themeLight': 'Claro',
+    'settings.themeDark': 'Oscuro',
+    'settings.language': 'Idioma',
+    'settings.languageSystem': 'Sistema',
+    'settings.weatherMap': 'Mapa del tiempo',
+    'settings.gridRefresh': 'Actualizar cuadrícula',
+    'settings.minutes': '{count} min',
+    'settings.temperatureColors': 'Colores de temperatura',
+    'settings.overlayOpacity': 'Opacidad de la capa',
+    'settings.alerts': 'Avisos de tiempo severo',
+    'settings.notifications': 'Notificaciones',
+    'settings.gustsFrom': 'Rachas desde',
+    'settings.heatFrom': 'Calor desde',
+    'settings.coldFrom': 'Frío desde',
+    'settings.backgroundRefresh': 'Actualización en segundo plano',
+    'settings.backgroundRefreshToggle': 'Actualizar pronósticos en segundo plano',
+    'settings.backgroundRefreshOff': 'La actualización en segundo plano está desactivada para esta app en los ajustes del sistema.',
+    'settings.lastRefreshed': 'Última actualización {time}.',
+    'settings.notRefreshed': 'Aún no se ha actualizado en segundo plano.',
+    'settings.data': 'Datos',
+    'settings.clearCache': 'Borrar datos en caché',
+    'settings.clearCacheMessage': 'Se eliminarán los pronósticos guardados, las búsquedas de lugares y las búsquedas recientes. Los pronósticos se volverán a descargar cuando haga falta.',
+    'palette.default': 'Predeterminado',
+    'palette.colorblind': 'Apto para daltónicos',
+    'palette.highContrast': 'Alto contraste',
+};
+
+export default es;
@@ -0,0 +1,161 @@
+/**
+ * French UI strings.
+ */
+
+import { Messages } from './en';
+
+const fr: Messages = {
+    // Shared
+    'common.loading': 'Chargement...',
+    'common.notAvailable': 'N/D',
+    'common.noData': 'Aucune donnée disponible',
+    'common.error': 'Erreur : {message}',
+    'common.errorTitle': 'Erreur',
+    'common.tryAgain': 'Réessayer',
+    'common.cancel': 'Annuler',
+    'common.clear': 'Effacer',
+    'common.edit': 'Modifier',
+    'common.done': 'OK',
+    'common.back': 'Retour',
+
+    // Request errors
+    'errors.network': 'Impossible de joindre le serveur. Vérifiez votre connexion.',
+    'errors.http': "Le serveur n'a pas pu répondre à la requête.",
+    'errors.invalidResponse': 'Le serveur a envoyé une réponse inattendue.',
+    'errors.unknown': "Une erreur s'est produite.",
+
+    // Navigation
+    'tabs.home': 'Accueil',
+    'tabs.forecastMap': 'Carte des prévisions',
+    'tabs.weather': 'Météo',
+    'tabs.settings': 'Réglages',
+    'notFound.title': 'Oups !',
+    'notFound.message': "Cet écran n'existe pas.",
+    'notFound.goHome': "Revenir à l'accueil !",
+
+    // Relative and calendar time
+    'time.now': 'Maintenant',
+    'time.today': "Aujourd'hui",
+    'time.justNow': "à l'instant",
+    'time.minutesAgo': 'il y a {count} min',
+    'time.hoursAgo': 'il y a {count} h',
+    'time.dayAgo': 'il y a 1 jour',
+    'time.daysAgo': 'il y a {count} jours',
+
+    // Weather shown on several screens
+    'weather.feelsLike': 'Ressenti {temperature}',
+    'weather.updated': 'Mis à jour {time}',
+
+    // Home
+    'home.title': 'Météo',
+    'home.yourLocation': 'Votre position',
+    'home.otherCities': 'Autres villes',
+    'home.noCities': 'Aucune ville ajoutée pour le moment.',
+    'home.unknownCity': 'Ville inconnue',
+
+    // Device location
+    'location.fetching': 'Recherche de votre position...',
+    'location.denied': "L'autorisation d'accéder à la position a été refusée",
+    'location.blocked': "L'accès à la position est désactivé pour cette app. Vous pouvez l'autoriser dans les Réglages.",
+    'location.servicesDisabled': 'Les services de localisation sont désactivés sur cet appareil.',
+    'location.unavailable': "Votre position n'a pas pu être déterminée.",
+    'location.openSettings': 'Ouvrir les Réglages',
+
+    // City search
+    'search.placeholder': "Nom d'une ville",
+    'search.recent': 'Récents',
+    'search.noResults': 'Aucun lieu trouvé pour « {query} ».',
+    'search.unavailable': "La recherche n'est pas disponible pour le moment. Vérifiez votre connexion et réessayez.",
+    'placeType.city': 'Ville',
+    'placeType.town': 'Commune',
+    'placeType.village': 'Village',
+    'placeType.hamlet': 'Hameau',
+    'placeType.other': 'Lieu',
+
+    // Forecast map
+    'forecast.fetchError': 'Erreur lors du chargement de la météo : {message}',
+    'forecast.currentWeather': 'Météo actuelle',
+    'forecast.temperature': 'Température : {value}',
+    'forecast.feelsLike': 'Ressenti : {value}',
+    'forecast.condition': 'Conditions : {value}',
+    'forecast.wind': 'Vent : {value}',
+    'forecast.humidity': 'Humidité : {value}',
+    'forecast.recenter': 'Recentrer',
+    'tracking.follow': 'Suivre',
+    'tracking.followHeading': 'Cap',
+    'tracking.free': 'Libre',
+
+    // Weather map
+    'map.timeline': '+{hours} h · {weekday} {time}',
+    'map.zonesFailed': 'Impossible de charger {failed} zones sur {total}. Nouvel essai à la prochaine actualisation.',
+    'mapLayer.temperature': 'Température',
+    'mapLayer.precipitation': 'Précipitations',
+    'mapLayer.windSpeed': 'Vent',
+    'mapLayer.cloudCover': 'Nuages',
+    'mapLayer.humidity': 'Humidité',
+    'mapLayer.uvIndex': 'Indice UV',
+
+    // City details
+    'city.title': 'Ville',
+    'city.invalidCoordinates': 'Les coordonnées de cette ville ne sont pas valides.',
+    'city.staleData': 'Données enregistrées {time}.',
+    'city.nextHours': 'Prochaines {count} heures',
+    'city.dailyForecast': 'Prévisions sur 7 jours',
+    'city.precipitationChance': 'Précip. {value}',
+
+    // Severe weather alerts
+    'alerts.title': 'Intempéries',
+    'alerts.windGusts': "Rafales jusqu'à {speed} à partir de {time}",
+    'alerts.extremeHeat': "Températures jusqu'à {temperature} à partir de {time}",
+    'alerts.extremeCold': "Températures jusqu'à {temperature} à partir de {time}",
+    'alerts.expected': '{rule} prévus à partir de {time}',
+    'alertRule.thunderstorm': 'Orages',
+    'alertRule.heavySnow': 'Fortes chutes de neige',
+    'alertRule.freezingRain': 'Pluie verglaçante',
+    'alertRule.windGusts': 'Fortes rafales de vent',
+    'alertRule.extremeHeat': 'Chaleur extrême',
+    'alertRule.extremeCold': 'Froid extrême',
+
+    // Settings
+    'settings.title': 'Réglages',
+    'settings.defaultLocation': 'Position par défaut',
+    'settings.source': 'Source',
+    'settings.sourceGps': 'GPS',
+    'settings.sourceCity': 'Ville',
+    'settings.noCitiesHint': "Ajoutez une ville dans l'onglet Accueil pour l'utiliser par défaut.",
+    'settings.units': 'Unités',
+    'settings.temperature': 'Température',
+    'settings.windSpeed': 'Vitesse du vent',
+    'settings.precipitation': 'Précipitations',
+    'settings.timeFormat': "Format de l'heure",
+    'settings.appearance': 'Apparence',
+    'settings.theme': 'Thème',
+    'settings.themeSystem': 'Système',
+    'settings.themeLight': 'Clair',
+    'settings.themeDark': 'Sombre',
+    'settings.language': 'Langue',
+    'settings.languageSystem': 'Système',
+    'settings.weatherMap': 'Carte météo',
+    'settings.gridRefresh': 'Actualisation de la grille',
+    'settings.minutes': '{count} min',
+    'settings.temperatureColors': 'Couleurs des températures',
+    'settings.overlayOpacity': 'Opacité de la couche',
+    'settings.alerts': 'Alertes intempéries',
+    'settings.notifications': 'Notifications',
+    'settings.gustsFrom': 'Rafales dès',
+    'settings.heatFrom': 'Chaleur dès',
+    'settings.coldFrom': 'Froid dès',
+    'settings.backgroundRefresh': 'Actualisation en arrière-plan',
+    'settings.backgroundRefreshToggle': 'Actualiser les prévisions en arrière-plan',
+    'settings.backgroundRefreshOff': "L'actualisation en arrière-plan est désactivée pour cette app dans les réglages du système.",
+    'settings.lastRefreshed': 'Dernière actualisation {time}.',
+    'settings.notRefreshed': 'Pas encore actualisé en arrière-plan.',
+    'settings.data': 'Données',
+    'settings.clearCache': 'Effacer les données en cache',
+    'settings.clearCacheMessage': 'Les prévisions enregistrées, les recherches de lieux et les recherches récentes seront supprimées. Les prévisions seront rechargées au besoin.',
+    'palette.default': 'Par défaut',
+    'palette.colorblind': 'Adaptée aux daltoniens',
+    'palette.highContrast': 'Contraste élevé',
+};
+
+export default fr;
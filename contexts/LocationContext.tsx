@@ -0,0 +1,249 @@
+// contexts/LocationContext.tsx
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+import * as Location from 'expo-location';
+import { useSettings } from './SettingsContext';
+import useTranslation from '../hooks/useTranslation';
+import {
+    DEFAULT_LOCATION_REQUEST,
+    DevicePosition,
+    LocationRequest,
+    LocationStatus,
+    WatchOptions,
+    describeLocationStatus,
+    getCurrentPosition,
+    getLastKnownPosition,
+    mergeLocationRequests,
+    openLocationSettings,
+    resolveLocationStatus,
+    watchPosition,
+} from '../services/location';
+import { Coordinates } from '../services/openMeteo';
+import { CityData } from '../services/savedCities';
+import { coarsenCoordinates } from '../utils/geo';
+
+interface LocationContextValue {
+    status: LocationStatus;
+    /** Why the device location is missing; null with a manual location. */
+    errorMsg: string | null;
+    /** The latest device fix, updated as often as any watcher asks for. */
+    position: DevicePosition | null;
+    /** True while `position` is the device's cached fix rather than a fresh one. */
+    isLastKnown: boolean;
+    /**
+     * Where forecasts are shown for: the manual city, or the device
+     * position snapped to the forecast cache's grid, so screens keyed on
+     * it do not refetch for every fix.
+     */
+    location: Coordinates | null;
+    /** The manual location chosen in settings, if any. */
+    city: CityData | null;
+    /**
+     * Asks again for whatever is missing: shows the permission prompt, or
+     * opens the system settings when the app may no longer ask.
+     */
+    requestLocation: () => Promise<void>;
+    /** Pins `location` to a city, or returns to the device position with null. */
+    setManualLocation: (city: CityData | null) => void;
+    /** Registers a watch request; returns a function that removes it. */
+    watch: (request: LocationRequest) => () => void;
+}
+
+const LocationContext = createContext<LocationContextValue>({
+    status: 'pending',
+    errorMsg: null,
+    position: null,
+    isLastKnown: false,
+    location: null,
+    city: null,
+    requestLocation: async () => {},
+    setManualLocation: () => {},
+    watch: () => () => {},
+});
+
+const sameOptions = (a: WatchOptions | null, b: WatchOptions | null) =>
+    a === b ||
+    (a !== null &&
+        b !== null &&
+        a.accuracy === b.accuracy &&
+        a.timeInterval === b.timeInterval &&
+        a.distanceInterval === b.distanceInterval);
+
+/**
+ * Owns location access for the whole app: the permission state, one
+ * shared watch subscription sized for the most demanding screen, a
+ * last-known-position fallback while the first fix arrives, and the
+ * manual location from settings.
+ */
+export function LocationProvider({ children }: { children: React.ReactNode }) {
+    const { settings, updateSettings } = useSettings();
+    const { t } = useTranslation();
+    const [status, setStatus] = useState<LocationStatus>('pending');
+    const [position, setPosition] = useState<DevicePosition | null>(null);
+    const [isLastKnown, setIsLastKnown] = useState(false);
+    const [coarseLocation, setCoarseLocation] = useState<Coordinates | null>(null);
+    const [watchOptions, setWatchOptions] = useState<WatchOptions | null>(null);
+    const [awaitingFix, setAwaitingFix] = useState(false);
+    const positionRef = useRef<DevicePosition | null>(null);
+    const requestsRef = useRef(new Map<number, LocationRequest>());
+    const nextRequestIdRef = useRef(0);
+
+    /**
+     * Publishes a fix unless a newer one is already shown, or one was
+     * shown less than `minInterval` ms before it.
+     */
+    const publish = useCallback((next: DevicePosition, lastKnown: boolean, minInterval = 0) => {
+        const current = positionRef.current;
+        if (current && next.timestamp < current.timestamp + minInterval) return;
+        positionRef.current = next;
+        setPosition(next);
+        setIsLastKnown(lastKnown);
+        const coarse = coarsenCoordinates(next);
+        setCoarseLocation(prev =>
+            prev && prev.latitude === coarse.latitude && prev.longitude === coarse.longitude ? prev : coarse
+        );
+    }, []);
+
+    /**
+     * Resolves the permission, then shows the cached fix right away and
+     * replaces it with a fresh one.
+     */
+    const locate = useCallback(
+        async (prompt: boolean) => {
+            let next: LocationStatus;
+            try {
+                next = await resolveLocationStatus(prompt);
+            } catch (err) {
+                console.warn('Error checking location permission:', err);
+                next = 'unavailable';
+            }
+            setStatus(next);
+            if (next !== 'granted') return;
+
+            const lastKnown = await getLastKnownPosition().catch(() => null);
+            if (lastKnown) publish(lastKnown, true);
+            try {
+                publish(await getCurrentPosition(Location.Accuracy.Balanced), false);
+            } catch (err) {
+                // Access is still granted, so the shared watch keeps trying
+                // and delivers the first fix when it can.
+                console.warn('Error getting current position:', err);
+                if (!positionRef.current) setAwaitingFix(true);
+            }
+        },
+        [publish]
+    );
+
+    useEffect(() => {
+        locate(true);
+    }, [locate]);
+
+    // The user may have fixed access in the system settings meanwhile.
+    useEffect(() => {
+        const subscription = AppState.addEventListener('change', state => {
+            if (state === 'active' && status !== 'granted') locate(false);
+        });
+        return () => subscription.remove();
+    }, [status, locate]);
+
+    // Without a fix yet, watch for one even when no screen asked for updates.
+    const activeWatchOptions = watchOptions ?? (awaitingFix && !position ? DEFAULT_LOCATION_REQUEST : null);
+
+    // One subscription for every watcher, restarted when their needs change.
+    useEffect(() => {
+        if (status !== 'granted' || !activeWatchOptions) return;
+        let stop: (() => void) | null = null;
+        let cancelled = false;
+
+        // iOS ignores timeInterval, so updates are throttled here as well.
+        watchPosition(activeWatchOptions, next => publish(next, false, activeWatchOptions.timeInterval))
+            .then(remove => {
+                if (cancelled) remove();
+                else stop = remove;
+            })
+            .catch(err => console.warn('Error watching location:', err));
+
+        return () => {
+            cancelled = true;
+            stop?.();
+        };
+    }, [status, activeWatchOptions, publish]);
+
+    const watch = useCallback((request: LocationRequest) => {
+        const id = nextRequestIdRef.current++;
+        const update = () => {
+            const next = mergeLocationRequests(Array.from(requestsRef.current.values()));
+            setWatchOptions(prev => (sameOptions(prev, next) ? prev : next));
+        };
+        requestsRef.current.set(id, request);
+        update();
+        return () => {
+            requestsRef.current.delete(id);
+            update();
+        };
+    }, []);
+
+    const requestLocation = useCallback(async () => {
+        if (status === 'blocked' || status === 'servicesDisabled') {
+            try {
+                await openLocationSettings(status);
+            } catch (err) {
+                // The user dismissed the dialog, or there is no settings page.
+                console.warn('Error opening location settings:', err);
+            }
+            await locate(false);
+        } else {
+            await locate(true);
+        }
+    }, [status, locate]);
+
+    const setManualLocation = useCallback(
+        (city: CityData | null) =>
+            updateSettings(city ? { locationSource: 'city', defaultCity: city } : { locationSource: 'gps' }),
+        [updateSettings]
+    );
+
+    const city = settings.locationSource === 'city' ? settings.defaultCity : null;
+
+    // Memoized on the city so effects depending on `location` only rerun
+    // when it changes.
+    const cityLocation = useMemo(
+        () => (city ? { latitude: city.latitude, longitude: city.longitude } : null),
+        [city]
+    );
+
+    const value = useMemo<LocationContextValue>(
+        () => ({
+            status,
+            errorMsg: city ? null : describeLocationStatus(status, t),
+            position,
+            isLastKnown,
+            location: cityLocation ?? coarseLocation,
+            city,
+            requestLocation,
+            setManualLocation,
+            watch,
+        }),
+        [status, city, t, position, isLastKnown, cityLocation, coarseLocation, requestLocation, setManualLocation, watch]
+    );
+
+    return <LocationContext.Provider value={value}>{children}</LocationContext.Provider>;
+}
+
+/**
+ * The shared location state. Passing a request subscribes to position
+ * updates for as long as the component is mounted; without one the
+ * component still sees updates other screens asked for, but starts none.
+ */
+export function useLocation(request?: LocationRequest): Omit<LocationContextValue, 'watch'> {
+    const { watch, ...value } = useContext(LocationContext);
+    const watching = request !== undefined;
+    const { accuracy, timeInterval, distanceInterval } = request ?? {};
+
+    useEffect(() => {
+        if (!watching) return;
+        return watch({ accuracy, timeInterval, distanceInterval });
+    }, [watch, watching, accuracy, timeInterval, distanceInterval]);
+
+    return value;
+}
@@ -0,0 +1,107 @@
+// contexts/SavedCitiesContext.tsx
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import {
+    CityData,
+    addSavedCity,
+    listSavedCities,
+    removeSavedCity,
+    reorderSavedCities,
+} from '../services/savedCities';
+
+interface SavedCitiesContextValue {
+    cities: CityData[];
+    /** True until the stored list has been read. */
+    loading: boolean;
+    error: string | null;
+    addCity: (city: CityData) => Promise<void>;
+    removeCity: (id: string) => Promise<void>;
+    /** Moves the city at `from` to index `to`. */
+    moveCity: (from: number, to: number) => Promise<void>;
+}
+
+const SavedCitiesContext = createContext<SavedCitiesContextValue>({
+    cities: [],
+    loading: true,
+    error: null,
+    addCity: () => Promise.resolve(),
+    removeCity: () => Promise.resolve(),
+    moveCity: () => Promise.resolve(),
+});
+
+/**
+ * Loads the saved city list from local storage once and shares it, so a
+ * city added on one tab shows up on every other mounted tab. Updates are
+ * applied to state first so the list responds immediately; a failed
+ * write reloads the stored list.
+ */
+export function SavedCitiesProvider({ children }: { children: React.ReactNode }) {
+    const [cities, setCities] = useState<CityData[]>([]);
+    const [loading, setLoading] = useState<boolean>(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const reload = useCallback(async () => {
+        try {
+            setCities(await listSavedCities());
+            setError(null);
+        } catch (err) {
+            setError((err as Error).message);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        reload();
+    }, [reload]);
+
+    const persist = useCallback(
+        async (write: () => Promise<void>) => {
+            try {
+                await write();
+            } catch (err) {
+                setError((err as Error).message);
+                await reload();
+            }
+        },
+        [reload]
+    );
+
+    const addCity = useCallback(
+        (city: CityData) => {
+            setCities(prev => (prev.some(c => c.id === city.id) ? prev : [...prev, city]));
+            return persist(() => addSavedCity(city));
+        },
+        [persist]
+    );
+
+    const removeCity = useCallback(
+        (id: string) => {
+            setCities(prev => prev.filter(c => c.id !== id));
+            return persist(() => removeSavedCity(id));
+        },
+        [persist]
+    );
+
+    const moveCity = useCallback(
+        (from: number, to: number) => {
+            if (to < 0 || to >= cities.length || from === to) return Promise.resolve();
+            const next = [...cities];
+            const [moved] = next.splice(from, 1);
+            next.splice(to, 0, moved);
+            setCities(next);
+            return persist(() => reorderSavedCities(next.map(c => c.id)));
+        },
+        [cities, persist]
+    );
+
+    const value = useMemo(
+        () => ({ cities, loading, error, addCity, removeCity, moveCity }),
+        [cities, loading, error, addCity, removeCity, moveCity]
+    );
+
+    return <SavedCitiesContext.Provider value={value}>{children}</SavedCitiesContext.Provider>;
+}
+
+export function useSavedCities(): SavedCitiesContextValue {
+    return useContext(SavedCitiesContext);
+}
@@ -0,0 +1,129 @@
+// contexts/SettingsContext.tsx
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { Appearance, Platform } from 'react-native';
+import { loadPreferences, savePreferences } from '../services/preferences';
+import { PrecipitationUnit, TemperatureUnit } from '../services/openMeteo';
+import { CityData } from '../services/savedCities';
+import { TemperaturePaletteId } from '../utils/colorScale';
+import { DisplayWindSpeedUnit, TimeFormat } from '../utils/format';
+import { LanguagePreference } from '../utils/i18n';
+import { AlertSettings, DEFAULT_ALERT_SETTINGS } from '../utils/weatherAlerts';
+
+export type LocationSource = 'gps' | 'city';
+export type ThemeOverride = 'system' | 'light' | 'dark';
+
+export interface Settings {
+    temperatureUnit: TemperatureUnit;
+    windSpeedUnit: DisplayWindSpeedUnit;
+    precipitationUnit: PrecipitationUnit;
+    timeFormat: TimeFormat;
+    /** Whether "Your Location" follows the GPS or a chosen saved city. */
+    locationSource: LocationSource;
+    /** The city used when `locationSource` is 'city'. */
+    defaultCity: CityData | null;
+    themeOverride: ThemeOverride;
+    /** How often the geofencing grid refetches its temperatures. */
+    gridRefreshMinutes: number;
+    /** Whether forecasts are refreshed periodically while the app is closed. */
+    backgroundRefresh: boolean;
+    /** Color palette used to paint temperatures on the maps. */
+    temperaturePalette: TemperaturePaletteId;
+    /** Fill opacity of the map overlays, from 0 to 1. */
+    mapOpacity: number;
+    /** Language of the UI and condition descriptions; 'system' follows the device. */
+    language: LanguagePreference;
+    /** Which severe weather rules are checked, and their thresholds. */
+    alerts: AlertSettings;
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+    temperatureUnit: 'celsius',
+    windSpeedUnit: 'kmh',
+    precipitationUnit: 'mm',
+    timeFormat: '24h',
+    locationSource: 'gps',
+    defaultCity: null,
+    themeOverride: 'system',
+    gridRefreshMinutes: 20,
+    backgroundRefresh: true,
+    temperaturePalette: 'default',
+    mapOpacity: 0.5,
+    language: 'system',
+    alerts: DEFAULT_ALERT_SETTINGS,
+};
+
+interface SettingsContextValue {
+    settings: Settings;
+    /** True once the stored preferences have been read. */
+    loaded: boolean;
+    updateSettings: (changes: Partial<Settings>) => void;
+}
+
+const SettingsContext = createContext<SettingsContextValue>({
+    settings: DEFAULT_SETTINGS,
+    loaded: false,
+    updateSettings: () => {},
+});
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Keeps only the stored values whose key is a known setting, so stale
+ * or unrelated rows in the preferences table cannot leak into `Settings`.
+ * Grouped settings are merged over their defaults so fields added in a
+ * later version still get a value.
+ */
+function pickSettings(stored: Record<string, unknown>): Partial<Settings> {
+    const defaults = DEFAULT_SETTINGS as unknown as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(defaults)) {
+        const value = stored[key];
+        if (value === undefined) continue;
+        result[key] = isPlainObject(defaults[key]) && isPlainObject(value) ? { ...defaults[key], ...value } : value;
+    }
+    return result as Partial<Settings>;
+}
+
+/**
+ * Reads the stored preferences merged over the defaults, for code that
+ * runs outside the React tree such as background tasks.
+ */
+export async function loadSettings(): Promise<Settings> {
+    return { ...DEFAULT_SETTINGS, ...pickSettings(await loadPreferences()) };
+}
+
+/**
+ * Provides the user's preferences to the whole app and persists every
+ * change to local storage.
+ */
+export function SettingsProvider({ children }: { children: React.ReactNode }) {
+    const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
+    const [loaded, setLoaded] = useState(false);
+
+    useEffect(() => {
+        loadPreferences()
+            .then(stored => setSettings(prev => ({ ...prev, ...pickSettings(stored) })))
+            .catch(err => console.warn('Error loading preferences:', err))
+            .finally(() => setLoaded(true));
+    }, []);
+
+    // Apply the theme override app-wide; useColorScheme follows Appearance.
+    useEffect(() => {
+        if (Platform.OS === 'web') return;
+        Appearance.setColorScheme(settings.themeOverride === 'system' ? null : settings.themeOverride);
+    }, [settings.themeOverride]);
+
+    const updateSettings = useCallback((changes: Partial<Settings>) => {
+        setSettings(prev => ({ ...prev, ...changes }));
+        savePreferences(changes).catch(err => console.warn('Error saving preferences:', err));
+    }, []);
+
+    const value = useMemo(() => ({ settings, loaded, updateSettings }), [settings, loaded, updateSettings]);
+
+    return <SettingsContext.Provider value={value}>{children}</SettingsContext.Provider>;
+}
+
+export function useSettings(): SettingsContextValue {
+    return useContext(SettingsContext);
+}
@@ -0,0 +1,19 @@
+// hooks/useBackgroundRefresh.ts
+import { useEffect } from 'react';
+import { useSettings } from '../contexts/SettingsContext';
+import { setBackgroundRefreshEnabled } from '../services/backgroundRefresh';
+
+/**
+ * Keeps the background refresh task registered according to settings.
+ */
+export default function useBackgroundRefresh() {
+    const { settings, loaded } = useSettings();
+
+    useEffect(() => {
+        // Wait for stored settings so a disabled task is never registered.
+        if (!loaded) return;
+        setBackgroundRefreshEnabled(settings.backgroundRefresh).catch(err =>
+            console.warn('Error updating background refresh:', err)
+        );
+    }, [loaded, settings.backgroundRefresh]);
+}
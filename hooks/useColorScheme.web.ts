@@ -1,11 +1,15 @@
 import { useEffect, useState } from 'react';
 import { useColorScheme as useRNColorScheme } from 'react-native';
 
+import { useSettings } from '@/contexts/SettingsContext';
+
 /**
- * To support static rendering, this value needs to be re-calculated on the client side for web
+ * To support static rendering, this value needs to be re-calculated on the client side for web.
+ * Appearance.setColorScheme does nothing on the web, so the theme override is applied here.
  */
 export function useColorScheme() {
   const [hasHydrated, setHasHydrated] = useState(false);
+  const { settings } = useSettings();
 
   useEffect(() => {
     setHasHydrated(true);
@@ -14,7 +18,7 @@ export function useColorScheme() {
   const colorScheme = useRNColorScheme();
 
   if (hasHydrated) {
-    return colorScheme;
+    return settings.themeOverride === 'system' ? colorScheme : settings.themeOverride;
   }
 
   return 'light';
@@ -0,0 +1,22 @@
+// hooks/useFormatter.ts
+import { useMemo } from 'react';
+import { useSettings } from '../contexts/SettingsContext';
+import { createFormatter } from '../utils/format';
+import useTranslation from './useTranslation';
+
+/**
+ * Binds the formatting helpers to the user's unit and language
+ * preferences. Values are assumed to already be in the preferred unit
+ * (useWeather requests them that way); pass `from` when a value was
+ * fetched in a fixed unit.
+ */
+export default function useFormatter() {
+    const { settings } = useSettings();
+    const { language, locale } = useTranslation();
+    const { temperatureUnit, windSpeedUnit, precipitationUnit, timeFormat } = settings;
+
+    return useMemo(
+        () => createFormatter({ temperatureUnit, windSpeedUnit, precipitationUnit, timeFormat, language, locale }),
+        [temperatureUnit, windSpeedUnit, precipitationUnit, timeFormat, language, locale]
+    );
+}
@@ -0,0 +1,45 @@
+// hooks/useGeocoding.ts
+import { useCallback, useEffect, useRef } from 'react';
+import { Place, geocoder } from '../services/geocoding';
+
+export type { Place };
+
+/**
+ * Place search and reverse lookup through the app's geocoder, which falls
+ * back from Nominatim to Open-Meteo to the bundled gazetteer. Starting a
+ * new search cancels the previous one, so only the latest query reaches
+ * the rate limited queue; superseded calls reject with an AbortError.
+ * `cancelSearch` aborts the pending search without starting another.
+ */
+export default function useGeocoding() {
+    const searchControllerRef = useRef<AbortController | null>(null);
+
+    const cancelSearch = useCallback(() => {
+        searchControllerRef.current?.abort();
+        searchControllerRef.current = null;
+    }, []);
+
+    // Cancel a pending search when the screen goes away.
+    useEffect(() => cancelSearch, [cancelSearch]);
+
+    /**
+     * Forward geocoding: searches places by name.
+     */
+    const search = useCallback((query: string): Promise<Place[]> => {
+        searchControllerRef.current?.abort();
+        const controller = new AbortController();
+        searchControllerRef.current = controller;
+        return geocoder.search(query, controller.signal);
+    }, []);
+
+    /**
+     * Reverse geocoding: names the place at the coordinates, or resolves
+     * to null when no provider knows one.
+     */
+    const reverse = useCallback(
+        (latitude: number, longitude: number): Promise<Place | null> => geocoder.reverse(latitude, longitude),
+        []
+    );
+
+    return { search, cancelSearch, reverse };
+}
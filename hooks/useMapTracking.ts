@@ -0,0 +1,96 @@
+// hooks/useMapTracking.ts
+import { useEffect, useRef, useState } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import { useIsFocused } from '@react-navigation/native';
+import { useLocation } from '../contexts/LocationContext';
+import { watchHeading } from '../services/location';
+import {
+    RestAnchor,
+    STATIONARY_AFTER_MS,
+    TrackingMode,
+    getTrackingRequest,
+    updateRestAnchor,
+} from '../utils/tracking';
+
+/** Compass changes smaller than this are ignored so jitter does not move the map. */
+const HEADING_STEP_DEG = 5;
+
+const angleBetween = (a: number, b: number) => Math.abs(((a - b + 540) % 360) - 180);
+
+/**
+ * Location updates for the forecast map in the given tracking mode. The
+ * watch is sized for the mode and slows down while the user is at rest or
+ * the app is in the background. In 'followHeading' mode the compass is
+ * watched too and reported as `heading`; otherwise `heading` is null.
+ * Tabs stay mounted, so another tab being shown counts as background.
+ */
+export default function useMapTracking(mode: TrackingMode) {
+    const [appState, setAppState] = useState<AppStateStatus>(AppState.currentState);
+    const [stationary, setStationary] = useState(false);
+    const [heading, setHeading] = useState<number | null>(null);
+    const anchorRef = useRef<RestAnchor | null>(null);
+    const restTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+    useEffect(() => {
+        const subscription = AppState.addEventListener('change', setAppState);
+        return () => subscription.remove();
+    }, []);
+
+    const focused = useIsFocused();
+    const background = appState !== 'active' || !focused;
+    const location = useLocation(getTrackingRequest(mode, { stationary, background }));
+    const { position } = location;
+
+    useEffect(() => {
+        if (!position) return;
+        const next = updateRestAnchor(anchorRef.current, position);
+        anchorRef.current = next.anchor;
+        setStationary(next.stationary);
+
+        // Precise updates are distance-filtered, so a resting user may send
+        // no further fixes; settle without waiting for one.
+        if (restTimerRef.current) clearTimeout(restTimerRef.current);
+        if (!next.stationary) {
+            const anchor = next.anchor;
+            restTimerRef.current = setTimeout(
+                () => {
+                    if (anchorRef.current === anchor) setStationary(true);
+                },
+                anchor.since + STATIONARY_AFTER_MS - position.timestamp
+            );
+        }
+    }, [position]);
+
+    useEffect(
+        () => () => {
+            if (restTimerRef.current) clearTimeout(restTimerRef.current);
+        },
+        []
+    );
+
+    // The compass only runs while the map rotates with it.
+    useEffect(() => {
+        if (mode !== 'followHeading' || background) {
+            setHeading(null);
+            return;
+        }
+        let stop: (() => void) | null = null;
+        let cancelled = false;
+
+        watchHeading(degrees =>
+            setHeading(prev => (prev !== null && angleBetween(prev, degrees) < HEADING_STEP_DEG ? prev : degrees))
+        )
+            .then(remove => {
+                if (cancelled) remove();
+                else stop = remove;
+            })
+            .catch(err => console.warn('Error watching heading:', err));
+
+        return () => {
+            cancelled = true;
+            stop?.();
+        };
+    }, [mode, background]);
+
+    return { ...location, heading, stationary };
+}
@@ -0,0 +1,107 @@
+// hooks/useNearbyZones.ts
+import { useEffect, useRef, useState } from 'react';
+import { Coordinates, fetchForecastBatch, findCurrentHourIndex } from '../services/openMeteo';
+import { distanceInMeters, offsetCoordinate } from '../utils/geo';
+
+export interface NearbyZone {
+    id: string;
+    center: Coordinates;
+    /** Circle radius in meters. */
+    radius: number;
+    /** Present-hour temperature in °C, or null when unavailable. */
+    temperature: number | null;
+}
+
+/**
+ * Sample rings around the tracked location: each ring places `count`
+ * points evenly at `distance` meters, drawn as circles of `radius`.
+ */
+const RINGS = [
+    { distance: 2500, count: 8, radius: 1200 },
+    { distance: 5000, count: 12, radius: 1500 },
+];
+
+/** How far the user must move before the zones are fetched again. */
+const REFRESH_DISTANCE_M = 1000;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const currentHour = () => Math.floor(Date.now() / HOUR_MS);
+
+function buildZones(origin: Coordinates): NearbyZone[] {
+    return RINGS.flatMap((ring, ringIndex) =>
+        Array.from({ length: ring.count }, (_, i) => ({
+            id: `ring${ringIndex}-${i}`,
+            center: offsetCoordinate(origin, ring.distance, (360 / ring.count) * i),
+            radius: ring.radius,
+            temperature: null,
+        }))
+    );
+}
+
+/**
+ * Fetches present-hour temperatures for a ring of sample points around
+ * `location`, refreshing once it has moved more than REFRESH_DISTANCE_M
+ * from where the last fetch was made, and again when the hour changes.
+ */
+export default function useNearbyZones(latitude?: number, longitude?: number) {
+    const [zones, setZones] = useState<NearbyZone[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [hour, setHour] = useState(currentHour);
+    const lastFetchRef = useRef<{ origin: Coordinates; hour: number } | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    // Tick at the top of every hour so the zones move on to the new hour.
+    useEffect(() => {
+        const timeout = setTimeout(() => setHour(currentHour()), HOUR_MS - (Date.now() % HOUR_MS));
+        return () => clearTimeout(timeout);
+    }, [hour]);
+
+    useEffect(() => {
+        if (latitude === undefined || longitude === undefined) return;
+
+        const origin = { latitude, longitude };
+        const lastFetch = lastFetchRef.current;
+        if (
+            lastFetch &&
+            lastFetch.hour === hour &&
+            distanceInMeters(lastFetch.origin, origin) < REFRESH_DISTANCE_M
+        ) {
+            return;
+        }
+        lastFetchRef.current = { origin, hour };
+
+        abortRef.current?.abort();
+        const controller = new AbortController();
+        abortRef.current = controller;
+
+        const nextZones = buildZones(origin);
+        fetchForecastBatch(
+            nextZones.map((zone) => zone.center),
+            // Fetched in Celsius: the shared temperature scale is defined in °C.
+            { hourly: ['temperature_2m'], forecastDays: 2 },
+            controller.signal
+        )
+            .then((results) => {
+                setZones(
+                    nextZones.map((zone, i) => {
+                        const { hourly, utc_offset_seconds } = results[i];
+                        const index = findCurrentHourIndex(hourly.time, utc_offset_seconds);
+                        return { ...zone, temperature: index === -1 ? null : hourly.temperature_2m[index] };
+                    })
+                );
+                setError(null);
+            })
+            .catch((err) => {
+                if ((err as Error).name === 'AbortError') return;
+                // Allow the next position update to retry.
+                lastFetchRef.current = null;
+                setError((err as Error).message);
+            });
+    }, [latitude, longitude, hour]);
+
+    // Cancel any request still in flight on unmount.
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    return { zones, error };
+}
@@ -0,0 +1,42 @@
+// hooks/useRecentSearches.ts
+import { useCallback, useEffect, useState } from 'react';
+import { Place } from '../services/geocoding';
+import {
+    MAX_RECENT_SEARCHES,
+    addRecentSearch,
+    clearRecentSearches,
+    listRecentSearches,
+} from '../services/recentSearches';
+
+/**
+ * The places recently picked from search, loaded on mount. Like the
+ * saved cities, changes show immediately and are written in the
+ * background; storage errors only cost the history, so they are logged.
+ */
+export default function useRecentSearches() {
+    const [recent, setRecent] = useState<Place[]>([]);
+
+    useEffect(() => {
+        let cancelled = false;
+        listRecentSearches()
+            .then(places => {
+                if (!cancelled) setRecent(places);
+            })
+            .catch(err => console.warn('Error loading recent searches:', err));
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    const addRecent = useCallback((place: Place) => {
+        setRecent(prev => [place, ...prev.filter(p => p.id !== place.id)].slice(0, MAX_RECENT_SEARCHES));
+        addRecentSearch(place).catch(err => console.warn('Error saving recent search:', err));
+    }, []);
+
+    const clearRecent = useCallback(() => {
+        setRecent([]);
+        clearRecentSearches().catch(err => console.warn('Error clearing recent searches:', err));
+    }, []);
+
+    return { recent, addRecent, clearRecent };
+}
@@ -3,12 +3,14 @@
  * https://docs.expo.dev/guides/color-schemes/
  */
 
-import { Colors } from '@/constants/Colors';
+import { StyleSheet } from 'react-native';
+
+import { Colors, ThemeColorName, ThemeColors } from '@/constants/Colors';
 import { useColorScheme } from '@/hooks/useColorScheme';
 
 export function useThemeColor(
   props: { light?: string; dark?: string },
-  colorName: keyof typeof Colors.light & keyof typeof Colors.dark
+  colorName: ThemeColorName
 ) {
   const theme = useColorScheme() ?? 'light';
   const colorFromProps = props[theme];
@@ -19,3 +21,24 @@ export function useThemeColor(
     return Colors[theme][colorName];
   }
 }
+
+/** The whole palette for the active color scheme. */
+export function useThemeColors(): ThemeColors {
+  return Colors[useColorScheme() ?? 'light'];
+}
+
+/**
+ * Builds a stylesheet from the palette once per color scheme and returns
+ * a hook that picks the one for the active scheme:
+ *
+ *   const useStyles = createThemedStyles((colors) => ({ title: { color: colors.text } }));
+ */
+export function createThemedStyles<T extends StyleSheet.NamedStyles<T>>(factory: (colors: ThemeColors) => T) {
+  const sheets = {
+    light: StyleSheet.create(factory(Colors.light)),
+    dark: StyleSheet.create(factory(Colors.dark)),
+  };
+  return function useThemedStyles(): T {
+    return sheets[useColorScheme() ?? 'light'];
+  };
+}
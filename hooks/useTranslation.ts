@@ -0,0 +1,23 @@
+// hooks/useTranslation.ts
+import { useMemo } from 'react';
+import { useLocales } from 'expo-localization';
+import { useSettings } from '../contexts/SettingsContext';
+import { createTranslator, resolveLanguage } from '../utils/i18n';
+
+/**
+ * Resolves the language setting against the device's locales and returns
+ * a translator for it, along with the locale values are formatted in.
+ * Follows changes to the device language while the app runs.
+ */
+export default function useTranslation() {
+    const { settings } = useSettings();
+    const locales = useLocales();
+
+    return useMemo(() => {
+        const { language, locale } = resolveLanguage(
+            settings.language,
+            locales.map(deviceLocale => deviceLocale.languageTag)
+        );
+        return { t: createTranslator(language), language, locale };
+    }, [settings.language, locales]);
+}
@@ -1,49 +1,127 @@
 // /hooks/useWeather.ts
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useCallback, useSyncExternalStore } from 'react';
+import { AppState } from 'react-native';
+import { useSettings } from '../contexts/SettingsContext';
+import { findCurrentHourIndex } from '../services/openMeteo';
+import { getQueryState, subscribeQuery } from '../services/queryStore';
+import { WeatherData, loadWeather, weatherQueryKey } from '../services/weather';
+import { isStale as isCacheStale } from '../services/weatherCache';
 
-interface WeatherData {
-    hourly: {
-        temperature_2m: number[];
-        time: string[];
-        weathercode: number[]; // Added weathercode property
-    };
-    // Add more fields as required
+export type { WeatherData };
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Normalized conditions for the hour the location is currently in.
+ */
+export interface CurrentConditions {
+    /** Local time of the matched hourly slot, as reported by the API. */
+    time: string;
+    temperature: number;
+    apparentTemperature: number;
+    weatherCode: number;
+    /** False between sunset and sunrise, for night icons. */
+    isDay: boolean;
+    windSpeed: number;
+    humidity: number;
 }
 
-const BASE_URL = 'https://api.open-meteo.com/v1/forecast';
+/**
+ * Picks the present hour out of the hourly series. The series starts at
+ * local midnight, so index 0 is only "now" right after midnight.
+ */
+export function getCurrentConditions(data: WeatherData, now: number = Date.now()): CurrentConditions | null {
+    const { hourly } = data;
+    const index = findCurrentHourIndex(hourly.time, data.utc_offset_seconds, now);
+    if (index === -1) return null;
+
+    return {
+        time: hourly.time[index],
+        temperature: hourly.temperature_2m[index],
+        apparentTemperature: hourly.apparent_temperature[index],
+        weatherCode: hourly.weather_code[index],
+        isDay: hourly.is_day[index] === 1,
+        windSpeed: hourly.wind_speed_10m[index],
+        humidity: hourly.relative_humidity_2m[index],
+    };
+}
 
+/**
+ * Subscribes to a location's forecast in the shared query store, so every
+ * component showing the same place shares one entry and one request (see
+ * `loadWeather` for the caching rules). If a refresh fails, the previous
+ * data stays in place and `isStale` tells screens to say so. The forecast
+ * is revalidated on every mount and whenever the app comes back to the
+ * foreground; `loadWeather` skips the fetch while the data is fresh.
+ * `refetch` forces a network fetch, e.g. for pull-to-refresh.
+ */
 function useWeather(latitude?: number, longitude?: number) {
-    const [data, setData] = useState<WeatherData | null>(null);
-    const [loading, setLoading] = useState<boolean>(true);
-    const [error, setError] = useState<string | null>(null);
+    const { settings } = useSettings();
+    const { temperatureUnit, windSpeedUnit, precipitationUnit } = settings;
+    const [isRefreshing, setIsRefreshing] = useState<boolean>(false);
+    const [now, setNow] = useState(Date.now);
 
-    useEffect(() => {
+    const hasLocation = latitude !== undefined && longitude !== undefined;
+    const key = hasLocation
+        ? weatherQueryKey(latitude, longitude, { temperatureUnit, windSpeedUnit, precipitationUnit })
+        : null;
+
+    const subscribe = useCallback(
+        (listener: () => void) => (key ? subscribeQuery(key, listener) : () => {}),
+        [key]
+    );
+    const state = useSyncExternalStore(subscribe, () => getQueryState<WeatherData>(key ?? ''));
+
+    const load = useCallback(() => {
         // Only fetch if both latitude and longitude are provided
-        if (latitude === undefined || longitude === undefined) {
-            return;
+        if (latitude === undefined || longitude === undefined) return;
+        loadWeather(latitude, longitude, { temperatureUnit, windSpeedUnit, precipitationUnit });
+    }, [latitude, longitude, temperatureUnit, windSpeedUnit, precipitationUnit]);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    // Clearing the store empties the entry, so load the forecast anew.
+    const isEmpty = !state.data && !state.error && !state.isFetching;
+    useEffect(() => {
+        if (isEmpty) load();
+    }, [isEmpty, load]);
+
+    // Timers do not run in the background, so catch up on the clock too.
+    useEffect(() => {
+        const subscription = AppState.addEventListener('change', appState => {
+            if (appState !== 'active') return;
+            setNow(Date.now());
+            load();
+        });
+        return () => subscription.remove();
+    }, [load]);
+
+    const refetch = useCallback(async () => {
+        if (latitude === undefined || longitude === undefined) return;
+        setIsRefreshing(true);
+        try {
+            await loadWeather(latitude, longitude, { temperatureUnit, windSpeedUnit, precipitationUnit }, { force: true });
+        } finally {
+            setIsRefreshing(false);
         }
+    }, [latitude, longitude, temperatureUnit, windSpeedUnit, precipitationUnit]);
+
+    const { data, error, updatedAt: lastUpdated } = state;
+    const utcOffsetMs = data ? data.utc_offset_seconds * 1000 : 0;
+
+    // Tick at the top of the location's next hour so `current` moves on with it.
+    useEffect(() => {
+        const timeout = setTimeout(() => setNow(Date.now()), HOUR_MS - ((Date.now() + utcOffsetMs) % HOUR_MS));
+        return () => clearTimeout(timeout);
+    }, [now, utcOffsetMs]);
+
+    const current = useMemo(() => (data ? getCurrentConditions(data, now) : null), [data, now]);
+    const loading = !data && !error;
+    const isStale = data !== null && lastUpdated !== null && (error !== null || isCacheStale(lastUpdated));
 
-        const fetchWeather = async () => {
-            try {
-                setLoading(true);
-                const url = `${BASE_URL}?latitude=${latitude}&longitude=${longitude}&hourly=temperature_2m&timezone=auto`;
-                const response = await fetch(url);
-                if (!response.ok) {
-                    throw new Error(`Network response was not ok (${response.status})`);
-                }
-                const json = await response.json();
-                setData(json);
-            } catch (err) {
-                setError((err as Error).message);
-            } finally {
-                setLoading(false);
-            }
-        };
-
-        fetchWeather();
-    }, [latitude, longitude]);
-
-    return { data, loading, error };
+    return { data, current, loading, error, lastUpdated, isStale, isRefreshing, refetch };
 }
 
-export default useWeather;
\ No newline at end of file
+export default useWeather;
@@ -0,0 +1,69 @@
+// hooks/useWeatherAlerts.ts
+import { useEffect, useRef, useState } from 'react';
+import { useSettings } from '../contexts/SettingsContext';
+import useFormatter from './useFormatter';
+import { requestNotificationPermission } from '../services/notifications';
+import { CityData } from '../services/savedCities';
+import { LocationAlert, checkWeatherAlerts, notifyNewAlerts } from '../services/weatherAlerts';
+
+/** How often the alert rules are re-checked while the screen is mounted. */
+const CHECK_INTERVAL_MS = 30 * 60 * 1000;
+
+/**
+ * Checks the given cities against the severe weather rules from settings,
+ * re-checking periodically, and notifies about alerts that are new in
+ * their event window.
+ */
+export default function useWeatherAlerts(cities: CityData[]) {
+    const { settings, loaded } = useSettings();
+    const format = useFormatter();
+    const [alerts, setAlerts] = useState<LocationAlert[]>([]);
+    const [error, setError] = useState<string | null>(null);
+
+    // Only refetch when a location actually changes, not on every new array.
+    const citiesKey = cities.map(city => `${city.latitude.toFixed(2)},${city.longitude.toFixed(2)}`).join('|');
+    const citiesRef = useRef(cities);
+    citiesRef.current = cities;
+    const formatRef = useRef(format);
+    formatRef.current = format;
+
+    const alertSettings = settings.alerts;
+
+    useEffect(() => {
+        // Wait for stored settings so disabled rules never fire.
+        if (!loaded) return;
+        if (alertSettings.notify) {
+            requestNotificationPermission().catch(err => console.warn('Error requesting notifications:', err));
+        }
+    }, [loaded, alertSettings.notify]);
+
+    useEffect(() => {
+        if (!loaded) return;
+
+        const controller = new AbortController();
+
+        const check = async () => {
+            try {
+                const result = await checkWeatherAlerts(citiesRef.current, alertSettings, controller.signal);
+                if (controller.signal.aborted) return;
+                setAlerts(result);
+                setError(null);
+                if (alertSettings.notify) {
+                    await notifyNewAlerts(result, formatRef.current);
+                }
+            } catch (err) {
+                if ((err as Error).name === 'AbortError') return;
+                setError((err as Error).message);
+            }
+        };
+
+        check();
+        const interval = setInterval(check, CHECK_INTERVAL_MS);
+        return () => {
+            controller.abort();
+            clearInterval(interval);
+        };
+    }, [loaded, citiesKey, alertSettings]);
+
+    return { alerts, error };
+}
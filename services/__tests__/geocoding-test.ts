@@ -0,0 +1,111 @@
+import { GeocodingProvider, Place, createFallbackProvider, nominatimProvider, placeToCity } from '../geocoding';
+import { searchPlaces } from '../nominatim';
+import { offlineGeocodingProvider } from '../offlineGeocoding';
+
+jest.mock('../nominatim', () => ({
+  searchPlaces: jest.fn(),
+  reversePlace: jest.fn(),
+}));
+
+const place = (name: string): Place => ({ id: name, name, latitude: 0, longitude: 0, type: 'city' });
+
+const provider = (id: string, search: GeocodingProvider['search']): GeocodingProvider => ({
+  id,
+  search,
+  reverse: async () => null,
+});
+
+describe('nominatimProvider', () => {
+  it('normalizes results and skips those without a settlement', async () => {
+    (searchPlaces as jest.Mock).mockResolvedValue([
+      {
+        place_id: 42,
+        display_name: 'Banff, Alberta, Canada',
+        lat: '51.17',
+        lon: '-115.57',
+        importance: 0.6,
+        address: { town: 'Banff', state: 'Alberta', country: 'Canada' },
+      },
+      { place_id: 7, display_name: 'Lake Louise', lat: '51.4', lon: '-116.2', address: { country: 'Canada' } },
+    ]);
+
+    const places = await nominatimProvider.search('banff');
+
+    expect(places).toEqual([
+      {
+        id: '42',
+        name: 'Banff',
+        state: 'Alberta',
+        country: 'Canada',
+        latitude: 51.17,
+        longitude: -115.57,
+        type: 'town',
+        importance: 0.6,
+      },
+    ]);
+    expect(placeToCity(places[0])).toMatchObject({ id: '42', city: 'Banff', state: 'Alberta' });
+  });
+});
+
+describe('createFallbackProvider', () => {
+  beforeEach(() => jest.spyOn(console, 'warn').mockImplementation(() => {}));
+  afterEach(() => jest.restoreAllMocks());
+
+  it('moves on when a provider fails or finds nothing', async () => {
+    const geocoder = createFallbackProvider([
+      provider('down', async () => {
+        throw new Error('offline');
+      }),
+      provider('empty', async () => []),
+      provider('last', async () => [place('Oslo')]),
+    ]);
+
+    await expect(geocoder.search('oslo')).resolves.toEqual([place('Oslo')]);
+  });
+
+  it('rethrows the first error when every provider fails', async () => {
+    const geocoder = createFallbackProvider([
+      provider('a', async () => {
+        throw new Error('first');
+      }),
+      provider('b', async () => {
+        throw new Error('second');
+      }),
+    ]);
+
+    await expect(geocoder.search('oslo')).rejects.toThrow('first');
+  });
+
+  it('stops at cancellation instead of trying the next provider', async () => {
+    const next = jest.fn(async () => [place('Oslo')]);
+    const geocoder = createFallbackProvider([
+      provider('a', async () => {
+        throw Object.assign(new Error('Aborted'), { name: 'AbortError' });
+      }),
+      provider('b', next),
+    ]);
+
+    await expect(geocoder.search('oslo')).rejects.toMatchObject({ name: 'AbortError' });
+    expect(next).not.toHaveBeenCalled();
+  });
+});
+
+describe('offlineGeocodingProvider', () => {
+  it('matches names ignoring case and accents', async () => {
+    const places = await offlineGeocodingProvider.search('sao paulo');
+    expect(places[0]).toMatchObject({ name: 'São Paulo', country: 'Brazil' });
+  });
+
+  it('ranks prefix matches before other matches', async () => {
+    const places = await offlineGeocodingProvider.search('lon');
+    expect(places.map(p => p.name)).toEqual(['London', 'Barcelona']);
+  });
+
+  it('names the nearest city within reach on reverse lookup', async () => {
+    await expect(offlineGeocodingProvider.reverse(48.86, 2.35)).resolves.toMatchObject({
+      name: 'Paris',
+      latitude: 48.86,
+    });
+    await expect(offlineGeocodingProvider.reverse(0, -140)).resolves.toBeNull();
+  });
+});
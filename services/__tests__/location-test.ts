@@ -0,0 +1,39 @@
+import * as Location from 'expo-location';
+import { DEFAULT_LOCATION_REQUEST, mergeLocationRequests, toDevicePosition } from '../location';
+
+describe('mergeLocationRequests', () => {
+  it('returns null when nobody is watching', () => {
+    expect(mergeLocationRequests([])).toBeNull();
+  });
+
+  it('fills in defaults for a single request', () => {
+    expect(mergeLocationRequests([{ timeInterval: 2000 }])).toEqual({ ...DEFAULT_LOCATION_REQUEST, timeInterval: 2000 });
+  });
+
+  it('takes the best accuracy and the shortest intervals', () => {
+    expect(
+      mergeLocationRequests([
+        { accuracy: Location.Accuracy.High, timeInterval: 5000, distanceInterval: 100 },
+        { accuracy: Location.Accuracy.Low, timeInterval: 1000, distanceInterval: 20 },
+      ])
+    ).toEqual({ accuracy: Location.Accuracy.High, timeInterval: 1000, distanceInterval: 20 });
+  });
+});
+
+describe('toDevicePosition', () => {
+  it('drops the negative heading and speed reported when unknown', () => {
+    const position = toDevicePosition({
+      timestamp: 1000,
+      coords: {
+        latitude: 1,
+        longitude: 2,
+        altitude: null,
+        accuracy: 5,
+        altitudeAccuracy: null,
+        heading: -1,
+        speed: -1,
+      },
+    });
+    expect(position).toEqual({ latitude: 1, longitude: 2, accuracy: 5, heading: null, speed: null, timestamp: 1000 });
+  });
+});
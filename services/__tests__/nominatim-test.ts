@@ -0,0 +1,74 @@
+import { getUserAgent, reversePlace, searchPlaces } from '../nominatim';
+
+const okResponse = (body: unknown) => ({ ok: true, status: 200, json: async () => body }) as Response;
+
+describe('nominatim client', () => {
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    fetchMock.mockReset();
+    fetchMock.mockResolvedValue(okResponse([]));
+    global.fetch = fetchMock;
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it('identifies the app in the User-Agent header', async () => {
+    const result = searchPlaces('Berlin');
+    await jest.runAllTimersAsync();
+    await result;
+
+    expect(fetchMock.mock.calls[0][1].headers['User-Agent']).toBe(getUserAgent());
+    expect(getUserAgent()).not.toContain('YourAppName');
+  });
+
+  it('spaces requests at least one second apart', async () => {
+    const callTimes: number[] = [];
+    fetchMock.mockImplementation(async () => {
+      callTimes.push(Date.now());
+      return okResponse([]);
+    });
+
+    const results = Promise.all([searchPlaces('Paris'), searchPlaces('Madrid'), searchPlaces('Lisbon')]);
+    await jest.runAllTimersAsync();
+    await results;
+
+    expect(callTimes).toHaveLength(3);
+    expect(callTimes[1] - callTimes[0]).toBeGreaterThanOrEqual(1000);
+    expect(callTimes[2] - callTimes[1]).toBeGreaterThanOrEqual(1000);
+  });
+
+  it('serves repeated queries from the cache', async () => {
+    const first = searchPlaces('Rome');
+    await jest.runAllTimersAsync();
+    await first;
+    const calls = fetchMock.mock.calls.length;
+
+    await expect(searchPlaces('  rome ')).resolves.toEqual([]);
+    expect(fetchMock).toHaveBeenCalledTimes(calls);
+  });
+
+  it('drops searches aborted while queued', async () => {
+    const controller = new AbortController();
+    const blocker = searchPlaces('Oslo');
+    const superseded = searchPlaces('Osl', controller.signal);
+    const assertion = expect(superseded).rejects.toMatchObject({ name: 'AbortError' });
+    controller.abort();
+
+    await jest.runAllTimersAsync();
+    await blocker;
+    await assertion;
+
+    expect(fetchMock.mock.calls.some(([url]) => url.endsWith('q=osl'))).toBe(false);
+  });
+
+  it('rounds coordinates for reverse lookups', async () => {
+    fetchMock.mockResolvedValue(okResponse({ place_id: 1, display_name: 'Somewhere', address: {} }));
+    const result = reversePlace(48.85661, 2.35222);
+    await jest.runAllTimersAsync();
+    await result;
+
+    expect(fetchMock.mock.calls[0][0]).toContain('lat=48.857&lon=2.352');
+  });
+});
@@ -0,0 +1,126 @@
+import {
+  OpenMeteoError,
+  buildBatchForecastUrl,
+  buildForecastUrl,
+  fetchForecastBatch,
+  findCurrentHourIndex,
+  parseLocalTime,
+} from '../openMeteo';
+
+const okResponse = (body: unknown) => ({ ok: true, status: 200, json: async () => body }) as Response;
+
+describe('buildForecastUrl', () => {
+  it('joins variables and omits default units', () => {
+    const url = buildForecastUrl({
+      latitude: 52.52,
+      longitude: 13.41,
+      hourly: ['temperature_2m', 'weather_code'],
+      temperatureUnit: 'celsius',
+    });
+
+    expect(url).toBe(
+      'https://api.open-meteo.com/v1/forecast?latitude=52.52&longitude=13.41&hourly=temperature_2m,weather_code&timezone=auto'
+    );
+  });
+
+  it('adds non-default units and forecast options', () => {
+    const url = buildForecastUrl({
+      latitude: 1,
+      longitude: 2,
+      daily: ['sunrise'],
+      temperatureUnit: 'fahrenheit',
+      windSpeedUnit: 'mph',
+      precipitationUnit: 'inch',
+      timezone: 'Europe/Berlin',
+      forecastDays: 3,
+    });
+
+    expect(url).toContain('temperature_unit=fahrenheit');
+    expect(url).toContain('wind_speed_unit=mph');
+    expect(url).toContain('precipitation_unit=inch');
+    expect(url).toContain('timezone=Europe%2FBerlin');
+    expect(url).toContain('forecast_days=3');
+  });
+});
+
+describe('buildBatchForecastUrl', () => {
+  it('joins the coordinates of every location in order', () => {
+    const url = buildBatchForecastUrl(
+      [
+        { latitude: 52.52, longitude: 13.41 },
+        { latitude: 48.85, longitude: 2.35 },
+      ],
+      { hourly: ['temperature_2m'] }
+    );
+
+    expect(url).toBe(
+      'https://api.open-meteo.com/v1/forecast?latitude=52.52,48.85&longitude=13.41,2.35&hourly=temperature_2m&timezone=auto'
+    );
+  });
+});
+
+describe('fetchForecastBatch', () => {
+  const fetchMock = jest.fn();
+  const locations = [
+    { latitude: 1, longitude: 2 },
+    { latitude: 3, longitude: 4 },
+  ];
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    global.fetch = fetchMock;
+  });
+
+  it('returns one forecast per location, in order', async () => {
+    fetchMock.mockResolvedValue(okResponse([{ latitude: 1 }, { latitude: 3 }]));
+
+    await expect(fetchForecastBatch(locations, {})).resolves.toEqual([{ latitude: 1 }, { latitude: 3 }]);
+  });
+
+  it('wraps the plain object returned for a single location', async () => {
+    fetchMock.mockResolvedValue(okResponse({ latitude: 1 }));
+
+    await expect(fetchForecastBatch([locations[0]], {})).resolves.toEqual([{ latitude: 1 }]);
+  });
+
+  it('rejects when the number of forecasts does not match', async () => {
+    fetchMock.mockResolvedValue(okResponse([{ latitude: 1 }]));
+
+    const result = fetchForecastBatch(locations, {});
+    await expect(result).rejects.toBeInstanceOf(OpenMeteoError);
+    await expect(result).rejects.toMatchObject({ kind: 'invalidResponse' });
+    await expect(result).rejects.toThrow('Expected 2 forecasts but received 1');
+  });
+
+  it('tells network failures from error statuses', async () => {
+    fetchMock.mockRejectedValueOnce(new TypeError('Network request failed'));
+    await expect(fetchForecastBatch(locations, {})).rejects.toMatchObject({ kind: 'network' });
+
+    fetchMock.mockResolvedValueOnce({ ok: false, status: 503, json: async () => ({}) } as Response);
+    await expect(fetchForecastBatch(locations, {})).rejects.toMatchObject({ kind: 'http', status: 503 });
+  });
+
+  it('skips the request without locations', async () => {
+    await expect(fetchForecastBatch([], {})).resolves.toEqual([]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('findCurrentHourIndex', () => {
+  const times = ['2025-01-31T00:00', '2025-01-31T01:00', '2025-01-31T02:00'];
+
+  it('applies the UTC offset of the location', () => {
+    // 01:30 local time in UTC+2 is 23:30 UTC the previous day.
+    const now = Date.parse('2025-01-30T23:30:00Z');
+    expect(findCurrentHourIndex(times, 7200, now)).toBe(1);
+  });
+
+  it('returns -1 outside the series', () => {
+    expect(findCurrentHourIndex(times, 0, Date.parse('2025-01-30T23:59:00Z'))).toBe(-1);
+    expect(findCurrentHourIndex(times, 0, Date.parse('2025-01-31T03:00:00Z'))).toBe(-1);
+  });
+
+  it('parses date-only strings as local midnight', () => {
+    expect(parseLocalTime('2025-01-31', -3600)).toBe(Date.parse('2025-01-31T01:00:00Z'));
+  });
+});
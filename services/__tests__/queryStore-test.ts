@@ -0,0 +1,140 @@
+import { QUERY_GC_TIME_MS, clearQueries, fetchQuery, getQueryState, subscribeQuery } from '../queryStore';
+
+let keyCounter = 0;
+/** Each test uses fresh keys, since the store is module-level. */
+const nextKey = () => `test-${keyCounter++}`;
+
+/** A fetcher whose completion the test controls. */
+function deferredFetcher<T>() {
+  let resolve!: () => void;
+  let reject!: (err: Error) => void;
+  let context!: { signal: AbortSignal; setData: (data: T, updatedAt: number) => void };
+  const fetcher = jest.fn((ctx: typeof context) => {
+    context = ctx;
+    return new Promise<void>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+  });
+  return { fetcher, resolve: () => resolve(), reject: (err: Error) => reject(err), context: () => context };
+}
+
+describe('queryStore', () => {
+  // Unused entries schedule a garbage-collection timer.
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('shares one in-flight fetch between callers', async () => {
+    const key = nextKey();
+    const { fetcher, resolve, context } = deferredFetcher<string>();
+
+    const first = fetchQuery(key, fetcher);
+    const second = fetchQuery(key, fetcher);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(getQueryState(key).isFetching).toBe(true);
+
+    context().setData('sunny', 1);
+    resolve();
+    await Promise.all([first, second]);
+
+    expect(getQueryState(key)).toEqual({ data: 'sunny', error: null, updatedAt: 1, isFetching: false });
+  });
+
+  it('notifies subscribers and returns a stable snapshot between changes', async () => {
+    const key = nextKey();
+    const listener = jest.fn();
+    const unsubscribe = subscribeQuery(key, listener);
+
+    await fetchQuery<string>(key, async ({ setData }) => setData('rain', 2));
+
+    expect(listener).toHaveBeenCalled();
+    expect(getQueryState(key)).toBe(getQueryState(key));
+    unsubscribe();
+  });
+
+  it('stores errors and clears them on a forced fetch', async () => {
+    const key = nextKey();
+    await fetchQuery(key, async () => {
+      throw new Error('offline');
+    });
+    expect(getQueryState(key).error?.message).toBe('offline');
+
+    const { fetcher, resolve } = deferredFetcher<string>();
+    const retry = fetchQuery(key, fetcher, { force: true });
+    expect(getQueryState(key).error).toBeNull();
+    resolve();
+    await retry;
+  });
+
+  it('aborts the running fetch when forced', async () => {
+    const key = nextKey();
+    const stale = deferredFetcher<string>();
+    fetchQuery(key, stale.fetcher);
+
+    const fresh = deferredFetcher<string>();
+    const forced = fetchQuery(key, fresh.fetcher, { force: true });
+
+    expect(stale.context().signal.aborted).toBe(true);
+    stale.context().setData('old', 1);
+    fresh.context().setData('new', 2);
+    fresh.resolve();
+    await forced;
+
+    expect(getQueryState(key).data).toBe('new');
+  });
+
+  it('aborts the fetch when the last subscriber leaves', () => {
+    const key = nextKey();
+    const { fetcher, context } = deferredFetcher<string>();
+    const unsubscribe = subscribeQuery(key, () => {});
+    fetchQuery(key, fetcher);
+
+    unsubscribe();
+
+    expect(context().signal.aborted).toBe(true);
+    expect(getQueryState(key).isFetching).toBe(false);
+  });
+
+  it('clears data and in-flight fetches, notifying subscribers', async () => {
+    const key = nextKey();
+    const pending = nextKey();
+    const listener = jest.fn();
+    const unsubscribe = subscribeQuery(key, listener);
+    await fetchQuery<string>(key, async ({ setData }) => setData('hail', 5));
+    const { fetcher, context } = deferredFetcher<string>();
+    fetchQuery(pending, fetcher);
+    listener.mockClear();
+
+    clearQueries();
+
+    expect(context().signal.aborted).toBe(true);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(getQueryState(key)).toEqual({ data: null, error: null, updatedAt: null, isFetching: false });
+    expect(getQueryState(pending).isFetching).toBe(false);
+    unsubscribe();
+  });
+
+  describe('garbage collection', () => {
+    it('removes entries that stay unused', async () => {
+      const key = nextKey();
+      const unsubscribe = subscribeQuery(key, () => {});
+      await fetchQuery<string>(key, async ({ setData }) => setData('snow', 3));
+      unsubscribe();
+
+      jest.advanceTimersByTime(QUERY_GC_TIME_MS - 1);
+      expect(getQueryState(key).data).toBe('snow');
+      jest.advanceTimersByTime(1);
+      expect(getQueryState(key).data).toBeNull();
+    });
+
+    it('keeps entries that are subscribed to again', async () => {
+      const key = nextKey();
+      await fetchQuery<string>(key, async ({ setData }) => setData('fog', 4));
+      const unsubscribe = subscribeQuery(key, () => {});
+
+      jest.advanceTimersByTime(QUERY_GC_TIME_MS * 2);
+      expect(getQueryState(key).data).toBe('fog');
+      unsubscribe();
+    });
+  });
+});
@@ -0,0 +1,16 @@
+import { OpenMeteoError } from '../openMeteo';
+import { NominatimError } from '../nominatim';
+import { RequestError, getErrorMessageKey } from '../requestError';
+
+describe('getErrorMessageKey', () => {
+  it('maps each kind to its catalog key', () => {
+    expect(getErrorMessageKey(new OpenMeteoError('network', 'offline'))).toBe('errors.network');
+    expect(getErrorMessageKey(new NominatimError('http', 'Geocoding error: 500', 500))).toBe('errors.http');
+    expect(getErrorMessageKey(new RequestError('invalidResponse', 'Not JSON'))).toBe('errors.invalidResponse');
+  });
+
+  it('falls back to a generic message for other errors', () => {
+    expect(getErrorMessageKey(new Error('boom'))).toBe('errors.unknown');
+    expect(getErrorMessageKey('boom')).toBe('errors.unknown');
+  });
+});
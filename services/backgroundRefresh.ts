@@ -0,0 +1,148 @@
+// services/backgroundRefresh.ts
+import { Platform } from 'react-native';
+import * as BackgroundFetch from 'expo-background-fetch';
+import * as Battery from 'expo-battery';
+import * as Location from 'expo-location';
+import * as Network from 'expo-network';
+import * as TaskManager from 'expo-task-manager';
+import { Settings, loadSettings } from '../contexts/SettingsContext';
+import { getDatabase } from './database';
+import { CityData, listSavedCities } from './savedCities';
+import { refreshWeatherCache } from './weather';
+import { checkWeatherAlerts, notifyNewAlerts } from './weatherAlerts';
+import { Formatter, createFormatter } from '../utils/format';
+import { coarsenCoordinates } from '../utils/geo';
+import { resolveLanguage } from '../utils/i18n';
+
+export const BACKGROUND_REFRESH_TASK = 'background-weather-refresh';
+
+/** Requested spacing between runs; the OS may run the task less often. */
+const MINIMUM_INTERVAL_S = 30 * 60;
+
+/** Below this charge, runs are skipped unless the device is charging. */
+const LOW_BATTERY_LEVEL = 0.2;
+
+/** GPS fixes older than this are not used for the current location. */
+const MAX_LOCATION_AGE_MS = 60 * 60 * 1000;
+
+/**
+ * Returns why a run should be skipped to spare the battery or because
+ * there is no connection, or null when it may go ahead.
+ */
+async function getSkipReason(): Promise<string | null> {
+    const network = await Network.getNetworkStateAsync();
+    if (network.isInternetReachable === false || network.isConnected === false) return 'offline';
+
+    const power = await Battery.getPowerStateAsync();
+    if (power.lowPowerMode) return 'low power mode';
+    const charging =
+        power.batteryState === Battery.BatteryState.CHARGING || power.batteryState === Battery.BatteryState.FULL;
+    if (!charging && power.batteryLevel >= 0 && power.batteryLevel < LOW_BATTERY_LEVEL) return 'low battery';
+
+    return null;
+}
+
+/**
+ * The location shown as "Your Location" on Home. In the background only
+ * the last known GPS fix is used; no permission prompt is shown. The fix
+ * is snapped like LocationContext does, so Home reads the entry written here.
+ */
+async function resolveCurrentLocation(settings: Settings, format: Formatter): Promise<CityData | null> {
+    if (settings.locationSource === 'city') return settings.defaultCity;
+
+    const { granted } = await Location.getForegroundPermissionsAsync();
+    if (!granted) return null;
+
+    const position = await Location.getLastKnownPositionAsync({ maxAge: MAX_LOCATION_AGE_MS });
+    if (!position) return null;
+    return {
+        id: 'user',
+        city: format.t('home.yourLocation'),
+        state: '',
+        country: '',
+        ...coarsenCoordinates(position.coords),
+    };
+}
+
+async function recordSuccess(task: string, at: number = Date.now()): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync('INSERT OR REPLACE INTO task_runs (task, succeeded_at) VALUES (?, ?)', task, at);
+}
+
+/**
+ * Epoch milliseconds of the last successful background refresh, or null
+ * if it has never completed.
+ */
+export async function getLastBackgroundRefresh(): Promise<number | null> {
+    const db = await getDatabase();
+    const row = await db.getFirstAsync<{ succeeded_at: number }>(
+        'SELECT succeeded_at FROM task_runs WHERE task = ?',
+        BACKGROUND_REFRESH_TASK
+    );
+    return row?.succeeded_at ?? null;
+}
+
+/**
+ * Refreshes the cached forecast for the current location and every saved
+ * city, then checks them for severe weather alerts.
+ */
+export async function runBackgroundRefresh(): Promise<BackgroundFetch.BackgroundFetchResult> {
+    if (await getSkipReason()) return BackgroundFetch.BackgroundFetchResult.NoData;
+
+    const settings = await loadSettings();
+    const format = createFormatter({ ...settings, ...resolveLanguage(settings.language) });
+    const [current, saved] = await Promise.all([resolveCurrentLocation(settings, format), listSavedCities()]);
+    const cities = current ? [current, ...saved] : saved;
+    if (cities.length === 0) return BackgroundFetch.BackgroundFetchResult.NoData;
+
+    await refreshWeatherCache(cities, settings);
+
+    if (settings.alerts.notify) {
+        const alerts = await checkWeatherAlerts(cities, settings.alerts);
+        await notifyNewAlerts(alerts, format);
+    }
+
+    await recordSuccess(BACKGROUND_REFRESH_TASK);
+    return BackgroundFetch.BackgroundFetchResult.NewData;
+}
+
+// Tasks must be defined at module scope so they exist when the OS wakes
+// the app without mounting any screen; app/_layout imports this module.
+TaskManager.defineTask(BACKGROUND_REFRESH_TASK, async () => {
+    try {
+        return await runBackgroundRefresh();
+    } catch (err) {
+        console.warn('Background refresh failed:', err);
+        return BackgroundFetch.BackgroundFetchResult.Failed;
+    }
+});
+
+/**
+ * Whether the OS lets this app run background fetches. False on web and
+ * when the user has turned off background app refresh.
+ */
+export async function isBackgroundRefreshAvailable(): Promise<boolean> {
+    if (Platform.OS === 'web') return false;
+    const status = await BackgroundFetch.getStatusAsync();
+    return status === BackgroundFetch.BackgroundFetchStatus.Available;
+}
+
+/**
+ * Registers or unregisters the background refresh task. Safe to call
+ * repeatedly with the same value.
+ */
+export async function setBackgroundRefreshEnabled(enabled: boolean): Promise<void> {
+    if (Platform.OS === 'web') return;
+
+    const registered = await TaskManager.isTaskRegisteredAsync(BACKGROUND_REFRESH_TASK);
+    if (enabled && !registered) {
+        if (!(await isBackgroundRefreshAvailable())) return;
+        await BackgroundFetch.registerTaskAsync(BACKGROUND_REFRESH_TASK, {
+            minimumInterval: MINIMUM_INTERVAL_S,
+            stopOnTerminate: false,
+            startOnBoot: true,
+        });
+    } else if (!enabled && registered) {
+        await BackgroundFetch.unregisterTaskAsync(BACKGROUND_REFRESH_TASK);
+    }
+}
@@ -0,0 +1,104 @@
+// services/database.ts
+import * as SQLite from 'expo-sqlite';
+
+const DATABASE_NAME = 'easyweather.db';
+
+/**
+ * Schema migrations, applied in order. The database's `user_version`
+ * pragma records how many have run, so a migration must never be edited
+ * once shipped; append a new entry instead.
+ */
+const MIGRATIONS: string[] = [
+    // 1: saved cities, ordered by `position`.
+    `CREATE TABLE saved_cities (
+        id TEXT PRIMARY KEY NOT NULL,
+        city TEXT NOT NULL,
+        state TEXT NOT NULL,
+        country TEXT NOT NULL,
+        latitude REAL NOT NULL,
+        longitude REAL NOT NULL,
+        position INTEGER NOT NULL,
+        created_at INTEGER NOT NULL
+    );`,
+    // 2: forecast responses keyed by rounded coordinates and request parameters.
+    `CREATE TABLE weather_cache (
+        key TEXT PRIMARY KEY NOT NULL,
+        payload TEXT NOT NULL,
+        fetched_at INTEGER NOT NULL
+    );`,
+    // 3: user preferences as JSON-encoded values.
+    `CREATE TABLE preferences (
+        key TEXT PRIMARY KEY NOT NULL,
+        value TEXT NOT NULL
+    );`,
+    // 4: severe weather alerts that already fired a notification.
+    `CREATE TABLE alert_notifications (
+        key TEXT PRIMARY KEY NOT NULL,
+        notified_at INTEGER NOT NULL
+    );`,
+    // 5: time of each background task's last successful run.
+    `CREATE TABLE task_runs (
+        task TEXT PRIMARY KEY NOT NULL,
+        succeeded_at INTEGER NOT NULL
+    );`,
+    // 6: places recently picked from search, as JSON-encoded places.
+    `CREATE TABLE recent_searches (
+        id TEXT PRIMARY KEY NOT NULL,
+        place TEXT NOT NULL,
+        searched_at INTEGER NOT NULL
+    );`,
+];
+
+async function migrate(db: SQLite.SQLiteDatabase): Promise<void> {
+    const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+    let version = row?.user_version ?? 0;
+
+    while (version < MIGRATIONS.length) {
+        const next = version + 1;
+        await db.withTransactionAsync(async () => {
+            await db.execAsync(MIGRATIONS[version]);
+            await db.execAsync(`PRAGMA user_version = ${next}`);
+        });
+        version = next;
+    }
+}
+
+let databasePromise: Promise<SQLite.SQLiteDatabase> | null = null;
+
+/**
+ * Opens the app database and brings its schema up to date. The connection
+ * is shared, so every caller after the first gets the same instance.
+ */
+export function getDatabase(): Promise<SQLite.SQLiteDatabase> {
+    if (!databasePromise) {
+        databasePromise = (async () => {
+            const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+            await db.execAsync('PRAGMA journal_mode = WAL;');
+            await migrate(db);
+            return db;
+        })().catch((err) => {
+            // Allow a later call to retry instead of caching the failure.
+            databasePromise = null;
+            throw err;
+        });
+    }
+    return databasePromise;
+}
+
+let transactionQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Runs `task` in a transaction once every transaction queued before it
+ * has finished. Transactions share the one connection, so two that
+ * overlapped would nest and fail, and the failing one's rollback would
+ * undo the other's writes.
+ */
+export function runTransaction(task: (db: SQLite.SQLiteDatabase) => Promise<void>): Promise<void> {
+    const run = transactionQueue.then(async () => {
+        const db = await getDatabase();
+        await db.withTransactionAsync(() => task(db));
+    });
+    // A failed transaction must not block the ones queued after it.
+    transactionQueue = run.catch(() => {});
+    return run;
+}
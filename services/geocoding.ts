@@ -0,0 +1,166 @@
+// services/geocoding.ts
+import { NominatimAddress, reversePlace, searchPlaces } from './nominatim';
+import { offlineGeocodingProvider } from './offlineGeocoding';
+import { openMeteoGeocodingProvider } from './openMeteoGeocoding';
+import { CityData } from './savedCities';
+
+/**
+ * Provider-independent geocoding. Screens work with `Place`; each
+ * provider maps its own response shape onto it, so picking the city name
+ * out of an address happens in exactly one place per provider.
+ */
+
+/** The kind of settlement a place is, coarsest last. */
+export type PlaceType = 'city' | 'town' | 'village' | 'hamlet' | 'other';
+
+export interface Place {
+    /**
+     * Unique across providers. Nominatim ids are its bare place ids, which
+     * saved cities already use; other providers prefix theirs.
+     */
+    id: string;
+    name: string;
+    state?: string;
+    country?: string;
+    latitude: number;
+    longitude: number;
+    type: PlaceType;
+    /** Relative prominence from 0 to 1, when the provider reports one. */
+    importance?: number;
+}
+
+export interface GeocodingProvider {
+    id: string;
+    search(query: string, signal?: AbortSignal): Promise<Place[]>;
+    /** Resolves to null when nothing is near the coordinates. */
+    reverse(latitude: number, longitude: number, signal?: AbortSignal): Promise<Place | null>;
+}
+
+/**
+ * The saved-city form of a place, as stored and shown on the Home tab.
+ */
+export function placeToCity(place: Place): CityData {
+    return {
+        id: place.id,
+        city: place.name,
+        state: place.state ?? '',
+        country: place.country ?? '',
+        latitude: place.latitude,
+        longitude: place.longitude,
+    };
+}
+
+// --------------------
+// Nominatim
+// --------------------
+/** Address keys naming a settlement, most specific type first. */
+const NOMINATIM_SETTLEMENT_KEYS: [key: string, type: PlaceType][] = [
+    ['city', 'city'],
+    ['town', 'town'],
+    ['village', 'village'],
+    ['hamlet', 'hamlet'],
+    ['municipality', 'other'],
+];
+
+/**
+ * Picks the settlement name and type out of a Nominatim address, or null
+ * when the address has none (e.g. a country or a lake).
+ */
+export function pickNominatimSettlement(address: NominatimAddress): { name: string; type: PlaceType } | null {
+    for (const [key, type] of NOMINATIM_SETTLEMENT_KEYS) {
+        if (address[key]) return { name: address[key], type };
+    }
+    return null;
+}
+
+export const nominatimProvider: GeocodingProvider = {
+    id: 'nominatim',
+    async search(query, signal) {
+        const results = await searchPlaces(query, signal);
+        return results.flatMap(result => {
+            const settlement = pickNominatimSettlement(result.address);
+            if (!settlement) return [];
+            return [
+                {
+                    id: result.place_id.toString(),
+                    name: settlement.name,
+                    state: result.address.state,
+                    country: result.address.country,
+                    latitude: parseFloat(result.lat),
+                    longitude: parseFloat(result.lon),
+                    type: settlement.type,
+                    importance: result.importance,
+                },
+            ];
+        });
+    },
+    async reverse(latitude, longitude, signal) {
+        const result = await reversePlace(latitude, longitude, signal);
+        const settlement = pickNominatimSettlement(result.address ?? {});
+        if (!settlement) return null;
+        return {
+            id: result.place_id.toString(),
+            name: settlement.name,
+            state: result.address.state,
+            country: result.address.country,
+            latitude,
+            longitude,
+            type: settlement.type,
+        };
+    },
+};
+
+// --------------------
+// Fallback chain
+// --------------------
+/**
+ * Combines providers into one that asks each in turn, moving on when a
+ * provider fails or finds nothing. Cancellation is never treated as a
+ * failure. If every provider fails, the first error is rethrown.
+ */
+export function createFallbackProvider(providers: GeocodingProvider[]): GeocodingProvider {
+    async function firstResult<T>(
+        attempt: (provider: GeocodingProvider) => Promise<T>,
+        isEmpty: (result: T) => boolean,
+        empty: T
+    ): Promise<T> {
+        let firstError: unknown = null;
+        for (const provider of providers) {
+            try {
+                const result = await attempt(provider);
+                if (!isEmpty(result)) return result;
+            } catch (err) {
+                if ((err as Error).name === 'AbortError') throw err;
+                console.warn(`Geocoding with ${provider.id} failed:`, err);
+                firstError ??= err;
+            }
+        }
+        if (firstError) throw firstError;
+        return empty;
+    }
+
+    return {
+        id: providers.map(provider => provider.id).join('+'),
+        search: (query, signal) =>
+            firstResult(provider => provider.search(query, signal), places => places.length === 0, [] as Place[]),
+        reverse: (latitude, longitude, signal) =>
+            firstResult<Place | null>(
+                provider => provider.reverse(latitude, longitude, signal),
+                place => place === null,
+                null
+            ),
+    };
+}
+
+// --------------------
+// Default
+// --------------------
+/**
+ * The geocoder the app uses: Nominatim, then Open-Meteo when Nominatim is
+ * down or finds nothing, then the bundled gazetteer.
+ */
+export const geocoder = createFallbackProvider([
+    nominatimProvider,
+    openMeteoGeocodingProvider,
+    offlineGeocodingProvider,
+]);
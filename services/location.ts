@@ -0,0 +1,157 @@
+// services/location.ts
+import { Linking, Platform } from 'react-native';
+import * as Location from 'expo-location';
+import { Coordinates } from './openMeteo';
+import { Translator } from '../utils/i18n';
+
+/**
+ * Wrappers around expo-location used by the LocationProvider. Screens
+ * should not call expo-location themselves; they share the provider's
+ * permission state and watch subscription through `useLocation`.
+ */
+
+/**
+ * - `pending`: not resolved yet.
+ * - `denied`: the user declined, but the prompt can be shown again.
+ * - `blocked`: declined for good; only the system settings can change it.
+ * - `servicesDisabled`: permission is granted but location services are off.
+ * - `unavailable`: granted and enabled, but no position could be obtained.
+ */
+export type LocationStatus = 'pending' | 'granted' | 'denied' | 'blocked' | 'servicesDisabled' | 'unavailable';
+
+export interface DevicePosition extends Coordinates {
+    /** Radius of uncertainty in meters. */
+    accuracy: number | null;
+    /** Degrees clockwise from true north, when moving. */
+    heading: number | null;
+    /** Meters per second. */
+    speed: number | null;
+    /** Epoch milliseconds of the fix. */
+    timestamp: number;
+}
+
+/** What a consumer needs from the shared watch subscription. */
+export interface LocationRequest {
+    accuracy?: Location.Accuracy;
+    /** Minimum time between updates in milliseconds. */
+    timeInterval?: number;
+    /** Minimum distance between updates in meters. */
+    distanceInterval?: number;
+}
+
+export type WatchOptions = Required<LocationRequest>;
+
+export const DEFAULT_LOCATION_REQUEST: WatchOptions = {
+    accuracy: Location.Accuracy.Balanced,
+    timeInterval: 10000,
+    distanceInterval: 50,
+};
+
+/** Last known fixes older than this are not used as a fallback. */
+const LAST_KNOWN_MAX_AGE_MS = 30 * 60 * 1000;
+
+/**
+ * Combines the requests of every consumer into one set of watch options
+ * that satisfies all of them: the best accuracy and the shortest
+ * intervals. Returns null when nobody needs updates.
+ */
+export function mergeLocationRequests(requests: LocationRequest[]): WatchOptions | null {
+    if (requests.length === 0) return null;
+    return requests.reduce<WatchOptions>(
+        (merged, request) => ({
+            accuracy: Math.max(merged.accuracy, request.accuracy ?? DEFAULT_LOCATION_REQUEST.accuracy),
+            timeInterval: Math.min(merged.timeInterval, request.timeInterval ?? DEFAULT_LOCATION_REQUEST.timeInterval),
+            distanceInterval: Math.min(
+                merged.distanceInterval,
+                request.distanceInterval ?? DEFAULT_LOCATION_REQUEST.distanceInterval
+            ),
+        }),
+        { accuracy: Location.Accuracy.Lowest, timeInterval: Infinity, distanceInterval: Infinity }
+    );
+}
+
+export function toDevicePosition({ coords, timestamp }: Location.LocationObject): DevicePosition {
+    return {
+        latitude: coords.latitude,
+        longitude: coords.longitude,
+        accuracy: coords.accuracy,
+        heading: coords.heading !== null && coords.heading >= 0 ? coords.heading : null,
+        speed: coords.speed !== null && coords.speed >= 0 ? coords.speed : null,
+        timestamp,
+    };
+}
+
+/**
+ * Resolves the foreground permission and whether location services are on.
+ * With `prompt`, the permission dialog is shown if the OS still allows it.
+ */
+export async function resolveLocationStatus(prompt: boolean): Promise<LocationStatus> {
+    let permission = await Location.getForegroundPermissionsAsync();
+    if (!permission.granted && permission.canAskAgain && prompt) {
+        permission = await Location.requestForegroundPermissionsAsync();
+    }
+    if (!permission.granted) return permission.canAskAgain ? 'denied' : 'blocked';
+    return (await Location.hasServicesEnabledAsync()) ? 'granted' : 'servicesDisabled';
+}
+
+/** The device's cached fix, if it is recent enough to show. */
+export async function getLastKnownPosition(): Promise<DevicePosition | null> {
+    const location = await Location.getLastKnownPositionAsync({ maxAge: LAST_KNOWN_MAX_AGE_MS });
+    return location ? toDevicePosition(location) : null;
+}
+
+export async function getCurrentPosition(accuracy: Location.Accuracy): Promise<DevicePosition> {
+    return toDevicePosition(await Location.getCurrentPositionAsync({ accuracy }));
+}
+
+/**
+ * Starts watching the position; resolves to a function that stops it.
+ */
+export async function watchPosition(
+    options: WatchOptions,
+    onPosition: (position: DevicePosition) => void
+): Promise<() => void> {
+    const subscription = await Location.watchPositionAsync(options, location => onPosition(toDevicePosition(location)));
+    return () => subscription.remove();
+}
+
+/**
+ * Starts watching the compass; `onHeading` gets degrees clockwise from true
+ * north, or magnetic north where true north is unknown. Resolves to a
+ * function that stops it.
+ */
+export async function watchHeading(onHeading: (degrees: number) => void): Promise<() => void> {
+    const subscription = await Location.watchHeadingAsync(({ trueHeading, magHeading }) =>
+        onHeading(trueHeading >= 0 ? trueHeading : magHeading)
+    );
+    return () => subscription.remove();
+}
+
+/**
+ * Sends the user where `status` can be fixed. Android can switch location
+ * services on from a dialog; everything else goes through the app's page
+ * in the system settings.
+ */
+export async function openLocationSettings(status: LocationStatus): Promise<void> {
+    if (status === 'servicesDisabled' && Platform.OS === 'android') {
+        await Location.enableNetworkProviderAsync();
+        return;
+    }
+    await Linking.openSettings();
+}
+
+/** A message for every status but 'granted' and 'pending'. */
+export function describeLocationStatus(status: LocationStatus, t: Translator): string | null {
+    switch (status) {
+        case 'denied':
+            return t('location.denied');
+        case 'blocked':
+            return t('location.blocked');
+        case 'servicesDisabled':
+            return t('location.servicesDisabled');
+        case 'unavailable':
+            return t('location.unavailable');
+        default:
+            return null;
+    }
+}
@@ -0,0 +1,175 @@
+// services/nominatim.ts
+import Constants from 'expo-constants';
+import { delay } from '../utils/async';
+import { createLruCache } from '../utils/lruCache';
+import { RequestError, RequestErrorKind } from './requestError';
+
+const BASE_URL = 'https://nominatim.openstreetmap.org';
+
+/**
+ * Nominatim's usage policy allows at most one request per second; requests
+ * are queued and spaced by this interval.
+ */
+const MIN_REQUEST_INTERVAL_MS = 1000;
+
+const SEARCH_CACHE_SIZE = 100;
+const REVERSE_CACHE_SIZE = 50;
+
+// --------------------
+// Types
+// --------------------
+export interface NominatimAddress {
+    city?: string;
+    town?: string;
+    village?: string;
+    state?: string;
+    country?: string;
+    [key: string]: any;
+}
+
+export interface NominatimSearchResult {
+    place_id: number;
+    display_name: string;
+    lat: string;
+    lon: string;
+    /** Nominatim's prominence estimate, from 0 to 1. */
+    importance?: number;
+    address: NominatimAddress;
+}
+
+export interface NominatimReverseResult {
+    place_id: number;
+    display_name: string;
+    address: NominatimAddress;
+}
+
+/**
+ * Thrown for failed Nominatim requests. `status` is the HTTP status when
+ * the server answered; it is undefined for network failures.
+ */
+export class NominatimError extends RequestError {
+    constructor(kind: RequestErrorKind, message: string, status?: number) {
+        super(kind, message, status);
+        this.name = 'NominatimError';
+    }
+}
+
+// --------------------
+// Identity
+// --------------------
+interface NominatimIdentity {
+    appName?: string;
+    /** A URL or email address where the operators can reach us. */
+    contact?: string;
+}
+
+/**
+ * The User-Agent identifying this app, as the usage policy requires. Set
+ * `extra.nominatim` in app.json to change the name or contact.
+ */
+export function getUserAgent(): string {
+    const config = Constants.expoConfig;
+    const identity = (config?.extra?.nominatim ?? {}) as NominatimIdentity;
+    const name = identity.appName ?? config?.name ?? 'EasyWeather';
+    const version = config?.version ?? '1.0.0';
+    return identity.contact ? `${name}/${version} (${identity.contact})` : `${name}/${version}`;
+}
+
+// --------------------
+// Request queue
+// --------------------
+let lastRequestAt = 0;
+let queueTail: Promise<unknown> = Promise.resolve();
+
+/**
+ * Runs `task` after every earlier queued request, at least
+ * MIN_REQUEST_INTERVAL_MS after the previous one started. Requests aborted
+ * while waiting are dropped without using a slot.
+ */
+function enqueue<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const run = queueTail.then(async () => {
+        const wait = lastRequestAt + MIN_REQUEST_INTERVAL_MS - Date.now();
+        // delay() rejects right away when the signal is already aborted.
+        await delay(Math.max(wait, 0), signal);
+        lastRequestAt = Date.now();
+        return task();
+    });
+    // Failures belong to the caller; the queue just moves on.
+    queueTail = run.catch(() => undefined);
+    return run;
+}
+
+async function requestJson<T>(path: string, signal?: AbortSignal): Promise<T> {
+    return enqueue(async () => {
+        let response: Response;
+        try {
+            response = await fetch(`${BASE_URL}${path}`, {
+                headers: { 'User-Agent': getUserAgent() },
+                signal,
+            });
+        } catch (err) {
+            if ((err as Error).name === 'AbortError') throw err;
+            throw new NominatimError('network', (err as Error).message || 'Network request failed');
+        }
+        if (!response.ok) {
+            throw new NominatimError('http', `Geocoding error: ${response.status}`, response.status);
+        }
+        try {
+            return (await response.json()) as T;
+        } catch {
+            throw new NominatimError('invalidResponse', 'Response was not valid JSON');
+        }
+    }, signal);
+}
+
+// --------------------
+// API
+// --------------------
+const searchCache = createLruCache<string, NominatimSearchResult[]>(SEARCH_CACHE_SIZE);
+const reverseCache = createLruCache<string, NominatimReverseResult>(REVERSE_CACHE_SIZE);
+
+/** Forgets every cached search and reverse lookup. */
+export function clearNominatimCache(): void {
+    searchCache.clear();
+    reverseCache.clear();
+}
+
+/**
+ * Forward geocoding: searches places by name and returns them with
+ * address details. Results are cached by normalized query.
+ */
+export async function searchPlaces(query: string, signal?: AbortSignal): Promise<NominatimSearchResult[]> {
+    const normalized = query.trim().toLowerCase();
+    const cached = searchCache.get(normalized);
+    if (cached) return cached;
+
+    const results = await requestJson<NominatimSearchResult[]>(
+        `/search?format=json&addressdetails=1&q=${encodeURIComponent(normalized)}`,
+        signal
+    );
+    searchCache.set(normalized, results);
+    return results;
+}
+
+/**
+ * Reverse geocoding: converts coordinates to an address. Coordinates are
+ * rounded to about 100 m for caching, which is finer than a town.
+ */
+export async function reversePlace(
+    latitude: number,
+    longitude: number,
+    signal?: AbortSignal
+): Promise<NominatimReverseResult> {
+    const lat = latitude.toFixed(3);
+    const lon = longitude.toFixed(3);
+    const key = `${lat},${lon}`;
+    const cached = reverseCache.get(key);
+    if (cached) return cached;
+
+    const result = await requestJson<NominatimReverseResult>(
+        `/reverse?format=json&addressdetails=1&lat=${lat}&lon=${lon}`,
+        signal
+    );
+    reverseCache.set(key, result);
+    return result;
+}
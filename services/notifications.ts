@@ -0,0 +1,53 @@
+// services/notifications.ts
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+
+// Show alerts as banners even while the app is in the foreground.
+Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+        shouldShowAlert: true,
+        shouldPlaySound: true,
+        shouldSetBadge: false,
+    }),
+});
+
+const ALERT_CHANNEL_ID = 'weather-alerts';
+
+/**
+ * Asks for notification permission if it has not been decided yet.
+ * Resolves to whether notifications may be shown.
+ */
+export async function requestNotificationPermission(): Promise<boolean> {
+    if (Platform.OS === 'web') return false;
+
+    const existing = await Notifications.getPermissionsAsync();
+    if (existing.granted) return true;
+    if (!existing.canAskAgain) return false;
+
+    const requested = await Notifications.requestPermissionsAsync();
+    return requested.granted;
+}
+
+/**
+ * Shows a local notification immediately. Resolves to false, showing
+ * nothing, when permission has not been granted.
+ */
+export async function presentNotification(title: string, body: string): Promise<boolean> {
+    if (Platform.OS === 'web') return false;
+
+    const { granted } = await Notifications.getPermissionsAsync();
+    if (!granted) return false;
+
+    if (Platform.OS === 'android') {
+        await Notifications.setNotificationChannelAsync(ALERT_CHANNEL_ID, {
+            name: 'Weather alerts',
+            importance: Notifications.AndroidImportance.HIGH,
+        });
+    }
+
+    await Notifications.scheduleNotificationAsync({
+        content: { title, body },
+        trigger: Platform.OS === 'android' ? { channelId: ALERT_CHANNEL_ID } : null,
+    });
+    return true;
+}
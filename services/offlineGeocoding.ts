@@ -0,0 +1,55 @@
+// services/offlineGeocoding.ts
+import { GazetteerCity, MAJOR_CITIES } from '../constants/MajorCities';
+import { GeocodingProvider, Place } from './geocoding';
+import { distanceInMeters } from '../utils/geo';
+import { foldText } from '../utils/placeSearch';
+
+/**
+ * Geocoding provider backed by the bundled gazetteer, so search keeps
+ * working without a network connection.
+ */
+
+const RESULT_COUNT = 10;
+
+/** Reverse lookups only name a city this close to the coordinates. */
+const MAX_REVERSE_DISTANCE_M = 50000;
+
+function toPlace(city: GazetteerCity): Place {
+    return {
+        id: `offline:${foldText(city.name)}:${foldText(city.country)}`,
+        name: city.name,
+        state: city.state,
+        country: city.country,
+        latitude: city.latitude,
+        longitude: city.longitude,
+        type: 'city',
+        importance: Math.min(1, Math.log10(city.population) / 7),
+    };
+}
+
+export const offlineGeocodingProvider: GeocodingProvider = {
+    id: 'offline',
+    async search(query) {
+        const needle = foldText(query.trim());
+        if (!needle) return [];
+
+        // Names starting with the query come before names merely containing it.
+        return MAJOR_CITIES.map(city => ({ city, position: foldText(city.name).indexOf(needle) }))
+            .filter(({ position }) => position !== -1)
+            .sort((a, b) => (a.position === 0 ? 0 : 1) - (b.position === 0 ? 0 : 1) || b.city.population - a.city.population)
+            .slice(0, RESULT_COUNT)
+            .map(({ city }) => toPlace(city));
+    },
+    async reverse(latitude, longitude) {
+        let nearest: GazetteerCity | null = null;
+        let nearestDistance = MAX_REVERSE_DISTANCE_M;
+        for (const city of MAJOR_CITIES) {
+            const distance = distanceInMeters({ latitude, longitude }, city);
+            if (distance <= nearestDistance) {
+                nearest = city;
+                nearestDistance = distance;
+            }
+        }
+        return nearest ? { ...toPlace(nearest), latitude, longitude } : null;
+    },
+};
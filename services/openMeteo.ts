@@ -0,0 +1,334 @@
+// services/openMeteo.ts
+import { RequestError, RequestErrorKind } from './requestError';
+
+/**
+ * Typed client for the Open-Meteo forecast API.
+ *
+ * Every request to https://api.open-meteo.com/v1/forecast goes through
+ * `buildForecastUrl` / `fetchForecast`, so supporting a new variable only
+ * means adding it to one of the unions below.
+ * API reference: https://open-meteo.com/en/docs
+ */
+
+const BASE_URL = 'https://api.open-meteo.com/v1/forecast';
+
+// --------------------
+// Variables
+// --------------------
+export type HourlyVariable =
+    | 'temperature_2m'
+    | 'apparent_temperature'
+    | 'relative_humidity_2m'
+    | 'dew_point_2m'
+    | 'precipitation'
+    | 'precipitation_probability'
+    | 'rain'
+    | 'showers'
+    | 'snowfall'
+    | 'weather_code'
+    | 'cloud_cover'
+    | 'pressure_msl'
+    | 'visibility'
+    | 'wind_speed_10m'
+    | 'wind_direction_10m'
+    | 'wind_gusts_10m'
+    | 'uv_index'
+    | 'is_day';
+
+export type DailyVariable =
+    | 'weather_code'
+    | 'temperature_2m_max'
+    | 'temperature_2m_min'
+    | 'apparent_temperature_max'
+    | 'apparent_temperature_min'
+    | 'sunrise'
+    | 'sunset'
+    | 'precipitation_sum'
+    | 'precipitation_probability_max'
+    | 'snowfall_sum'
+    | 'wind_speed_10m_max'
+    | 'wind_gusts_10m_max'
+    | 'uv_index_max';
+
+export type CurrentVariable =
+    | 'temperature_2m'
+    | 'apparent_temperature'
+    | 'relative_humidity_2m'
+    | 'precipitation'
+    | 'rain'
+    | 'showers'
+    | 'snowfall'
+    | 'weather_code'
+    | 'cloud_cover'
+    | 'pressure_msl'
+    | 'wind_speed_10m'
+    | 'wind_direction_10m'
+    | 'wind_gusts_10m'
+    | 'is_day';
+
+// --------------------
+// Units
+// --------------------
+export type TemperatureUnit = 'celsius' | 'fahrenheit';
+export type WindSpeedUnit = 'kmh' | 'ms' | 'mph' | 'kn';
+export type PrecipitationUnit = 'mm' | 'inch';
+
+// --------------------
+// Request
+// --------------------
+export interface Coordinates {
+    latitude: number;
+    longitude: number;
+}
+
+export interface ForecastRequest<
+    H extends HourlyVariable = never,
+    D extends DailyVariable = never,
+    C extends CurrentVariable = never,
+> {
+    latitude: number;
+    longitude: number;
+    hourly?: readonly H[];
+    daily?: readonly D[];
+    current?: readonly C[];
+    temperatureUnit?: TemperatureUnit;
+    windSpeedUnit?: WindSpeedUnit;
+    precipitationUnit?: PrecipitationUnit;
+    /** IANA timezone name, or 'auto' (the default) to resolve it from the coordinates. */
+    timezone?: string;
+    /** Number of forecast days, 1–16. Open-Meteo defaults to 7. */
+    forecastDays?: number;
+    /** Number of past days to include, 0–92. */
+    pastDays?: number;
+}
+
+/** Everything in a request except the location. */
+export type ForecastOptions<
+    H extends HourlyVariable = never,
+    D extends DailyVariable = never,
+    C extends CurrentVariable = never,
+> = Omit<ForecastRequest<H, D, C>, 'latitude' | 'longitude'>;
+
+// --------------------
+// Response
+// --------------------
+/** Daily values that come back as ISO 8601 strings rather than numbers. */
+type DailyStringVariable = 'sunrise' | 'sunset';
+
+export type HourlySeries<H extends HourlyVariable> = { time: string[] } & { [K in H]: number[] };
+
+export type DailySeries<D extends DailyVariable> = { time: string[] } & {
+    [K in D]: K extends DailyStringVariable ? string[] : number[];
+};
+
+export type CurrentValues<C extends CurrentVariable> = { time: string; interval: number } & {
+    [K in C]: number;
+};
+
+export type UnitLabels<V extends string> = { [K in V | 'time']: string };
+
+export interface ForecastMeta {
+    latitude: number;
+    longitude: number;
+    elevation: number;
+    generationtime_ms: number;
+    utc_offset_seconds: number;
+    timezone: string;
+    timezone_abbreviation: string;
+}
+
+export type ForecastResponse<
+    H extends HourlyVariable = never,
+    D extends DailyVariable = never,
+    C extends CurrentVariable = never,
+> = ForecastMeta &
+    ([H] extends [never] ? Record<never, never> : { hourly: HourlySeries<H>; hourly_units: UnitLabels<H> }) &
+    ([D] extends [never] ? Record<never, never> : { daily: DailySeries<D>; daily_units: UnitLabels<D> }) &
+    ([C] extends [never] ? Record<never, never> : { current: CurrentValues<C>; current_units: UnitLabels<C> });
+
+// --------------------
+// Errors
+// --------------------
+/**
+ * The single error type thrown by this client. `status` is the HTTP status
+ * when the server answered; it is undefined for network failures.
+ */
+export class OpenMeteoError extends RequestError {
+    constructor(kind: RequestErrorKind, message: string, status?: number) {
+        super(kind, message, status);
+        this.name = 'OpenMeteoError';
+    }
+}
+
+/**
+ * Whether a failed request may succeed if repeated: network failures, rate
+ * limiting and server errors. Bad requests (4xx) and malformed responses
+ * are not transient.
+ */
+export function isTransientError(err: unknown): boolean {
+    if (!(err instanceof OpenMeteoError)) return false;
+    if (err.kind === 'network') return true;
+    return err.kind === 'http' && err.status !== undefined && (err.status === 429 || err.status >= 500);
+}
+
+// --------------------
+// Client
+// --------------------
+/**
+ * Serializes everything except the coordinates. Unit parameters are only
+ * added when they differ from Open-Meteo's defaults, keeping URLs short.
+ */
+function buildOptionParams<H extends HourlyVariable, D extends DailyVariable, C extends CurrentVariable>(
+    options: ForecastOptions<H, D, C>
+): string[] {
+    const params: string[] = [];
+
+    if (options.hourly?.length) params.push(`hourly=${options.hourly.join(',')}`);
+    if (options.daily?.length) params.push(`daily=${options.daily.join(',')}`);
+    if (options.current?.length) params.push(`current=${options.current.join(',')}`);
+
+    if (options.temperatureUnit && options.temperatureUnit !== 'celsius') {
+        params.push(`temperature_unit=${options.temperatureUnit}`);
+    }
+    if (options.windSpeedUnit && options.windSpeedUnit !== 'kmh') {
+        params.push(`wind_speed_unit=${options.windSpeedUnit}`);
+    }
+    if (options.precipitationUnit && options.precipitationUnit !== 'mm') {
+        params.push(`precipitation_unit=${options.precipitationUnit}`);
+    }
+
+    params.push(`timezone=${encodeURIComponent(options.timezone ?? 'auto')}`);
+    if (options.forecastDays !== undefined) params.push(`forecast_days=${options.forecastDays}`);
+    if (options.pastDays !== undefined) params.push(`past_days=${options.pastDays}`);
+
+    return params;
+}
+
+/**
+ * Builds the full forecast URL for a request.
+ */
+export function buildForecastUrl<H extends HourlyVariable, D extends DailyVariable, C extends CurrentVariable>(
+    request: ForecastRequest<H, D, C>
+): string {
+    const { latitude, longitude, ...options } = request;
+    const params = [`latitude=${latitude}`, `longitude=${longitude}`, ...buildOptionParams(options)];
+    return `${BASE_URL}?${params.join('&')}`;
+}
+
+/**
+ * Builds one URL for several locations; Open-Meteo accepts comma-separated
+ * coordinate lists and answers with one forecast per location, in order.
+ */
+export function buildBatchForecastUrl<H extends HourlyVariable, D extends DailyVariable, C extends CurrentVariable>(
+    locations: readonly Coordinates[],
+    options: ForecastOptions<H, D, C>
+): string {
+    const params = [
+        `latitude=${locations.map(l => l.latitude).join(',')}`,
+        `longitude=${locations.map(l => l.longitude).join(',')}`,
+        ...buildOptionParams(options),
+    ];
+    return `${BASE_URL}?${params.join('&')}`;
+}
+
+/**
+ * Performs the HTTP request and normalizes every failure into an
+ * `OpenMeteoError`.
+ */
+async function requestJson(url: string, signal?: AbortSignal): Promise<unknown> {
+    let response: Response;
+    try {
+        response = await fetch(url, { signal });
+    } catch (err) {
+        // Let cancellations through untouched so callers can tell them apart.
+        if ((err as Error).name === 'AbortError') throw err;
+        throw new OpenMeteoError('network', (err as Error).message || 'Network request failed');
+    }
+
+    if (!response.ok) {
+        // Open-Meteo explains bad requests as { error: true, reason: string }.
+        let reason = `Network response was not ok (${response.status})`;
+        try {
+            const body = await response.json();
+            if (body?.reason) reason = body.reason;
+        } catch {
+            // Body was not JSON; keep the status message.
+        }
+        throw new OpenMeteoError('http', reason, response.status);
+    }
+
+    try {
+        return await response.json();
+    } catch {
+        throw new OpenMeteoError('invalidResponse', 'Response was not valid JSON');
+    }
+}
+
+/**
+ * Fetches a forecast and returns the response typed after the requested
+ * variables. Any failure (network, HTTP status or an API error payload)
+ * is rethrown as an `OpenMeteoError`.
+ */
+export async function fetchForecast<
+    H extends HourlyVariable = never,
+    D extends DailyVariable = never,
+    C extends CurrentVariable = never,
+>(request: ForecastRequest<H, D, C>, signal?: AbortSignal): Promise<ForecastResponse<H, D, C>> {
+    return (await requestJson(buildForecastUrl(request), signal)) as ForecastResponse<H, D, C>;
+}
+
+/**
+ * Fetches forecasts for several locations in a single request. The result
+ * has one entry per location, in the order given.
+ */
+export async function fetchForecastBatch<
+    H extends HourlyVariable = never,
+    D extends DailyVariable = never,
+    C extends CurrentVariable = never,
+>(
+    locations: readonly Coordinates[],
+    options: ForecastOptions<H, D, C>,
+    signal?: AbortSignal
+): Promise<ForecastResponse<H, D, C>[]> {
+    if (locations.length === 0) return [];
+    const json = await requestJson(buildBatchForecastUrl(locations, options), signal);
+    // A single location comes back as a plain object rather than an array.
+    const results = (Array.isArray(json) ? json : [json]) as ForecastResponse<H, D, C>[];
+    if (results.length !== locations.length) {
+        throw new OpenMeteoError('invalidResponse', `Expected ${locations.length} forecasts but received ${results.length}`);
+    }
+    return results;
+}
+
+// --------------------
+// Time helpers
+// --------------------
+/**
+ * Converts one of the response's local `time` strings ("2025-01-31T14:00")
+ * into an epoch timestamp. Open-Meteo reports times in the location's own
+ * timezone without an offset, so the response's `utc_offset_seconds` is
+ * needed to place them on the real timeline.
+ */
+export function parseLocalTime(time: string, utcOffsetSeconds: number): number {
+    // Date-only strings (daily series) parse as UTC midnight; add a time for consistency.
+    const iso = time.length === 10 ? `${time}T00:00` : time;
+    return Date.parse(`${iso}Z`) - utcOffsetSeconds * 1000;
+}
+
+/**
+ * Returns the index of the hourly slot that contains `now`, or -1 when
+ * `now` falls outside the series.
+ */
+export function findCurrentHourIndex(
+    times: string[],
+    utcOffsetSeconds: number,
+    now: number = Date.now()
+): number {
+    for (let i = times.length - 1; i >= 0; i--) {
+        const start = parseLocalTime(times[i], utcOffsetSeconds);
+        if (start <= now) {
+            return now - start < 60 * 60 * 1000 ? i : -1;
+        }
+    }
+    return -1;
+}
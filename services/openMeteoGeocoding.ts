@@ -0,0 +1,78 @@
+// services/openMeteoGeocoding.ts
+import { GeocodingProvider, Place, PlaceType } from './geocoding';
+import { RequestError } from './requestError';
+
+/**
+ * Geocoding provider backed by Open-Meteo's place search, which is built
+ * on GeoNames. It has no reverse lookup.
+ * API reference: https://open-meteo.com/en/docs/geocoding-api
+ */
+
+const BASE_URL = 'https://geocoding-api.open-meteo.com/v1/search';
+const RESULT_COUNT = 10;
+
+interface OpenMeteoPlace {
+    id: number;
+    name: string;
+    latitude: number;
+    longitude: number;
+    /** GeoNames feature code, e.g. PPLC for a capital or PPL for a populated place. */
+    feature_code?: string;
+    country?: string;
+    admin1?: string;
+    population?: number;
+}
+
+/** Roughly classifies a settlement by population, as GeoNames has no town/village split. */
+function classify(place: OpenMeteoPlace): PlaceType {
+    if (!place.feature_code?.startsWith('PPL')) return 'other';
+    const population = place.population ?? 0;
+    if (place.feature_code === 'PPLC' || population >= 100000) return 'city';
+    if (population >= 5000) return 'town';
+    return population > 0 ? 'village' : 'hamlet';
+}
+
+/** Maps population onto 0-1 on a log scale; ten million or more is 1. */
+function importanceFromPopulation(population?: number): number | undefined {
+    if (!population) return undefined;
+    return Math.min(1, Math.log10(population) / 7);
+}
+
+export const openMeteoGeocodingProvider: GeocodingProvider = {
+    id: 'open-meteo',
+    async search(query, signal) {
+        const url = `${BASE_URL}?name=${encodeURIComponent(query.trim())}&count=${RESULT_COUNT}&format=json`;
+        let response: Response;
+        try {
+            response = await fetch(url, { signal });
+        } catch (err) {
+            if ((err as Error).name === 'AbortError') throw err;
+            throw new RequestError('network', (err as Error).message || 'Network request failed');
+        }
+        if (!response.ok) {
+            throw new RequestError('http', `Geocoding error: ${response.status}`, response.status);
+        }
+        // The results key is absent when nothing matched.
+        let body: { results?: OpenMeteoPlace[] };
+        try {
+            body = await response.json();
+        } catch {
+            throw new RequestError('invalidResponse', 'Response was not valid JSON');
+        }
+        return (body.results ?? []).map(
+            (place): Place => ({
+                id: `open-meteo:${place.id}`,
+                name: place.name,
+                state: place.admin1,
+                country: place.country,
+                latitude: place.latitude,
+                longitude: place.longitude,
+                type: classify(place),
+                importance: importanceFromPopulation(place.population),
+            })
+        );
+    },
+    async reverse() {
+        return null;
+    },
+};
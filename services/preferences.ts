@@ -0,0 +1,35 @@
+// services/preferences.ts
+import { getDatabase, runTransaction } from './database';
+
+/**
+ * Reads every stored preference. Values are returned as they were saved;
+ * callers are responsible for merging them over their defaults.
+ */
+export async function loadPreferences(): Promise<Record<string, unknown>> {
+    const db = await getDatabase();
+    const rows = await db.getAllAsync<{ key: string; value: string }>('SELECT key, value FROM preferences');
+    const result: Record<string, unknown> = {};
+    for (const row of rows) {
+        try {
+            result[row.key] = JSON.parse(row.value);
+        } catch {
+            // Skip values that cannot be decoded; the default will be used.
+        }
+    }
+    return result;
+}
+
+/**
+ * Stores the given preferences, leaving all other keys untouched.
+ */
+export async function savePreferences(values: Record<string, unknown>): Promise<void> {
+    await runTransaction(async db => {
+        for (const [key, value] of Object.entries(values)) {
+            await db.runAsync(
+                'INSERT OR REPLACE INTO preferences (key, value) VALUES (?, ?)',
+                key,
+                JSON.stringify(value)
+            );
+        }
+    });
+}
@@ -0,0 +1,157 @@
+// services/queryStore.ts
+
+/**
+ * A minimal in-memory query layer shared by every component. Each key
+ * holds the latest result and at most one in-flight fetch, so components
+ * asking for the same key share both. Entries are read through
+ * `useSyncExternalStore` via `subscribeQuery` and `getQueryState`.
+ */
+
+export interface QueryState<T> {
+    data: T | null;
+    /** The last fetch's failure, kept whole so screens can describe it by kind. */
+    error: Error | null;
+    /** Epoch milliseconds of the fetch that produced `data`. */
+    updatedAt: number | null;
+    /** True while a fetch for this key is in flight. */
+    isFetching: boolean;
+}
+
+export interface QueryContext<T> {
+    /** Aborted when the fetch is superseded or nobody needs the result anymore. */
+    signal: AbortSignal;
+    /** Publishes data before the fetch finishes, e.g. a cached copy. */
+    setData: (data: T, updatedAt: number) => void;
+}
+
+export type QueryFetcher<T> = (context: QueryContext<T>) => Promise<void>;
+
+/** How long an entry without subscribers is kept before it is removed. */
+export const QUERY_GC_TIME_MS = 5 * 60 * 1000;
+
+interface QueryEntry {
+    state: QueryState<unknown>;
+    listeners: Set<() => void>;
+    promise: Promise<void> | null;
+    controller: AbortController | null;
+    gcTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const EMPTY_STATE: QueryState<never> = { data: null, error: null, updatedAt: null, isFetching: false };
+
+const entries = new Map<string, QueryEntry>();
+
+function ensureEntry(key: string): QueryEntry {
+    let entry = entries.get(key);
+    if (!entry) {
+        entry = { state: EMPTY_STATE, listeners: new Set(), promise: null, controller: null, gcTimer: null };
+        entries.set(key, entry);
+    }
+    return entry;
+}
+
+/** Replaces the entry's state with a new object so snapshots compare by reference. */
+function update(entry: QueryEntry, changes: Partial<QueryState<unknown>>) {
+    entry.state = { ...entry.state, ...changes };
+    entry.listeners.forEach(listener => listener());
+}
+
+function scheduleGc(key: string, entry: QueryEntry) {
+    if (entry.gcTimer) clearTimeout(entry.gcTimer);
+    entry.gcTimer = setTimeout(() => {
+        if (entry.listeners.size > 0 || entries.get(key) !== entry) return;
+        entry.controller?.abort();
+        entries.delete(key);
+    }, QUERY_GC_TIME_MS);
+}
+
+/**
+ * The current state for `key`. Returns the same object until the state
+ * changes, as `useSyncExternalStore` requires.
+ */
+export function getQueryState<T>(key: string): QueryState<T> {
+    return (entries.get(key)?.state ?? EMPTY_STATE) as QueryState<T>;
+}
+
+/**
+ * Calls `listener` whenever the state for `key` changes. When the last
+ * subscriber leaves, any fetch in flight is aborted and the entry is
+ * garbage-collected after QUERY_GC_TIME_MS.
+ */
+export function subscribeQuery(key: string, listener: () => void): () => void {
+    const entry = ensureEntry(key);
+    entry.listeners.add(listener);
+    if (entry.gcTimer) {
+        clearTimeout(entry.gcTimer);
+        entry.gcTimer = null;
+    }
+
+    return () => {
+        entry.listeners.delete(listener);
+        if (entry.listeners.size > 0) return;
+        if (entry.controller) {
+            entry.controller.abort();
+            entry.controller = null;
+            entry.promise = null;
+            entry.state = { ...entry.state, isFetching: false };
+        }
+        scheduleGc(key, entry);
+    };
+}
+
+/**
+ * Drops every entry's data and aborts fetches in flight. Subscribers are
+ * notified with an empty state, which tells them to load again.
+ */
+export function clearQueries(): void {
+    entries.forEach((entry, key) => {
+        entry.controller?.abort();
+        entry.controller = null;
+        entry.promise = null;
+        if (entry.listeners.size === 0) {
+            if (entry.gcTimer) clearTimeout(entry.gcTimer);
+            entries.delete(key);
+            return;
+        }
+        update(entry, EMPTY_STATE);
+    });
+}
+
+/**
+ * Runs `fetcher` for `key` unless a fetch is already in flight, in which
+ * case that fetch is shared. With `force`, the running fetch is aborted
+ * and replaced, and any previous error is cleared. Never rejects: errors
+ * are stored in the query state.
+ */
+export function fetchQuery<T>(key: string, fetcher: QueryFetcher<T>, { force = false } = {}): Promise<void> {
+    const entry = ensureEntry(key);
+    if (entry.promise && !force) return entry.promise;
+
+    entry.controller?.abort();
+    const controller = new AbortController();
+    const { signal } = controller;
+    entry.controller = controller;
+    update(entry, force ? { isFetching: true, error: null } : { isFetching: true });
+
+    const setData = (data: T, updatedAt: number) => {
+        if (!signal.aborted) update(entry, { data, updatedAt });
+    };
+
+    const promise = fetcher({ signal, setData })
+        .then(() => {
+            if (!signal.aborted) update(entry, { isFetching: false, error: null });
+        })
+        .catch(err => {
+            if (!signal.aborted) update(entry, { isFetching: false, error: err as Error });
+        })
+        .finally(() => {
+            if (entry.controller !== controller) return;
+            entry.controller = null;
+            entry.promise = null;
+            // Fetched without anyone subscribed, e.g. a prefetch.
+            if (entry.listeners.size === 0) scheduleGc(key, entry);
+        });
+
+    entry.promise = promise;
+    return promise;
+}
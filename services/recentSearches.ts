@@ -0,0 +1,50 @@
+// services/recentSearches.ts
+import { getDatabase, runTransaction } from './database';
+import { Place } from './geocoding';
+
+/** How many recently picked places are remembered. */
+export const MAX_RECENT_SEARCHES = 8;
+
+/**
+ * Returns the places most recently picked from search, newest first.
+ */
+export async function listRecentSearches(): Promise<Place[]> {
+    const db = await getDatabase();
+    const rows = await db.getAllAsync<{ place: string }>(
+        'SELECT place FROM recent_searches ORDER BY searched_at DESC LIMIT ?',
+        MAX_RECENT_SEARCHES
+    );
+    return rows.flatMap(row => {
+        try {
+            return [JSON.parse(row.place) as Place];
+        } catch {
+            // Skip entries that cannot be decoded.
+            return [];
+        }
+    });
+}
+
+/**
+ * Records a picked place, moving it to the top if it was already listed,
+ * and forgets everything beyond MAX_RECENT_SEARCHES.
+ */
+export async function addRecentSearch(place: Place): Promise<void> {
+    await runTransaction(async db => {
+        await db.runAsync(
+            'INSERT OR REPLACE INTO recent_searches (id, place, searched_at) VALUES (?, ?, ?)',
+            place.id,
+            JSON.stringify(place),
+            Date.now()
+        );
+        await db.runAsync(
+            `DELETE FROM recent_searches WHERE id NOT IN
+             (SELECT id FROM recent_searches ORDER BY searched_at DESC LIMIT ?)`,
+            MAX_RECENT_SEARCHES
+        );
+    });
+}
+
+export async function clearRecentSearches(): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync('DELETE FROM recent_searches');
+}
@@ -0,0 +1,39 @@
+// services/requestError.ts
+import { MessageKey } from '../utils/i18n';
+
+/**
+ * What went wrong with a request: it never reached the server, the server
+ * answered with an error status, or the answer was not what we expected.
+ */
+export type RequestErrorKind = 'network' | 'http' | 'invalidResponse';
+
+/**
+ * Base class of the errors thrown by the HTTP clients. The message is for
+ * logs and stays in English; screens show the text for `kind` instead.
+ * `status` is the HTTP status when the server answered.
+ */
+export class RequestError extends Error {
+    readonly kind: RequestErrorKind;
+    readonly status?: number;
+
+    constructor(kind: RequestErrorKind, message: string, status?: number) {
+        super(message);
+        this.name = 'RequestError';
+        this.kind = kind;
+        this.status = status;
+    }
+}
+
+const MESSAGE_KEYS: Record<RequestErrorKind, MessageKey> = {
+    network: 'errors.network',
+    http: 'errors.http',
+    invalidResponse: 'errors.invalidResponse',
+};
+
+/**
+ * The catalog key explaining `err` to the user. Errors that did not come
+ * from a request get a generic message.
+ */
+export function getErrorMessageKey(err: unknown): MessageKey {
+    return err instanceof RequestError ? MESSAGE_KEYS[err.kind] : 'errors.unknown';
+}
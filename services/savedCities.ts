@@ -0,0 +1,63 @@
+// services/savedCities.ts
+import { getDatabase, runTransaction } from './database';
+
+/**
+ * Define a type for our city data so that all listings include:
+ * city, state, country, latitude, and longitude.
+ * `id` is the geocoding place id, or 'user' for the device location.
+ * `state` and `country` are empty when the geocoder does not know them.
+ */
+export interface CityData {
+    id: string;
+    city: string;
+    state: string;
+    country: string;
+    latitude: number;
+    longitude: number;
+}
+
+/**
+ * Returns the saved cities in their display order.
+ */
+export async function listSavedCities(): Promise<CityData[]> {
+    const db = await getDatabase();
+    return db.getAllAsync<CityData>(
+        'SELECT id, city, state, country, latitude, longitude FROM saved_cities ORDER BY position ASC'
+    );
+}
+
+/**
+ * Appends a city to the end of the list. Adding a city that is already
+ * saved is a no-op.
+ */
+export async function addSavedCity(city: CityData): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync(
+        `INSERT OR IGNORE INTO saved_cities (id, city, state, country, latitude, longitude, position, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, (SELECT COALESCE(MAX(position), -1) + 1 FROM saved_cities), ?)`,
+        city.id,
+        city.city,
+        city.state,
+        city.country,
+        city.latitude,
+        city.longitude,
+        Date.now()
+    );
+}
+
+export async function removeSavedCity(id: string): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync('DELETE FROM saved_cities WHERE id = ?', id);
+}
+
+/**
+ * Persists a new display order. `orderedIds` lists the saved city ids
+ * from top to bottom; ids that are not saved are ignored.
+ */
+export async function reorderSavedCities(orderedIds: string[]): Promise<void> {
+    await runTransaction(async db => {
+        for (let position = 0; position < orderedIds.length; position++) {
+            await db.runAsync('UPDATE saved_cities SET position = ? WHERE id = ?', position, orderedIds[position]);
+        }
+    });
+}
@@ -0,0 +1,144 @@
+// services/weather.ts
+import {
+    Coordinates,
+    ForecastResponse,
+    PrecipitationUnit,
+    TemperatureUnit,
+    fetchForecast,
+    fetchForecastBatch,
+    isTransientError,
+} from './openMeteo';
+import { fetchQuery, getQueryState } from './queryStore';
+import { buildCacheKey, isStale, readCache, writeCache } from './weatherCache';
+import { retryWithBackoff } from '../utils/async';
+import { DisplayWindSpeedUnit } from '../utils/format';
+
+/**
+ * The forecast shown on the Home and city screens. Requests for it are
+ * built here so that screens and the background refresh share cache keys.
+ */
+const HOURLY_VARIABLES = [
+    'temperature_2m',
+    'apparent_temperature',
+    'weather_code',
+    'wind_speed_10m',
+    'relative_humidity_2m',
+    'precipitation_probability',
+    'is_day',
+] as const;
+
+const DAILY_VARIABLES = [
+    'weather_code',
+    'temperature_2m_max',
+    'temperature_2m_min',
+    'precipitation_probability_max',
+    'sunrise',
+    'sunset',
+] as const;
+
+export type WeatherData = ForecastResponse<
+    (typeof HOURLY_VARIABLES)[number],
+    (typeof DAILY_VARIABLES)[number]
+>;
+
+export interface WeatherUnits {
+    temperatureUnit: TemperatureUnit;
+    windSpeedUnit: DisplayWindSpeedUnit;
+    precipitationUnit: PrecipitationUnit;
+}
+
+/**
+ * Everything but the coordinates of a forecast request, in the given units.
+ */
+export function buildWeatherParams({ temperatureUnit, windSpeedUnit, precipitationUnit }: WeatherUnits) {
+    return {
+        hourly: HOURLY_VARIABLES,
+        daily: DAILY_VARIABLES,
+        forecastDays: 7,
+        temperatureUnit,
+        windSpeedUnit,
+        precipitationUnit,
+    };
+}
+
+/**
+ * The query and cache key of a location's forecast. Coordinates are
+ * rounded, so nearby positions share one entry.
+ */
+export function weatherQueryKey(latitude: number, longitude: number, units: WeatherUnits): string {
+    return buildCacheKey(latitude, longitude, buildWeatherParams(units));
+}
+
+/**
+ * Loads a location's forecast into the query store with a
+ * stale-while-revalidate cache: a stored copy is published right away and
+ * refreshed from the network once it is older than the cache TTL. When
+ * the in-memory copy is stale, the stored one is checked first, since the
+ * background refresh may have written a newer forecast.
+ * Transient network errors are retried with exponential backoff. `force`
+ * skips both caches. Concurrent loads of the same key share one fetch.
+ */
+export function loadWeather(
+    latitude: number,
+    longitude: number,
+    units: WeatherUnits,
+    { force = false } = {}
+): Promise<void> {
+    const params = buildWeatherParams(units);
+    const key = buildCacheKey(latitude, longitude, params);
+
+    const current = getQueryState<WeatherData>(key);
+    if (!force && current.data && current.updatedAt !== null && !isStale(current.updatedAt)) {
+        return Promise.resolve();
+    }
+
+    return fetchQuery<WeatherData>(
+        key,
+        async ({ signal, setData }) => {
+            if (!force) {
+                try {
+                    const cached = await readCache<WeatherData>(key);
+                    const { updatedAt } = getQueryState<WeatherData>(key);
+                    if (cached && (updatedAt === null || cached.fetchedAt > updatedAt)) {
+                        setData(cached.data, cached.fetchedAt);
+                        if (!isStale(cached.fetchedAt)) return;
+                    }
+                } catch (err) {
+                    // A broken cache should never block a network fetch.
+                    console.warn('Error reading weather cache:', err);
+                }
+            }
+
+            const data = await retryWithBackoff(() => fetchForecast({ latitude, longitude, ...params }, signal), {
+                shouldRetry: isTransientError,
+                signal,
+            });
+            const fetchedAt = Date.now();
+            setData(data, fetchedAt);
+            writeCache(key, data, fetchedAt).catch(err => console.warn('Error writing weather cache:', err));
+        },
+        { force }
+    );
+}
+
+/**
+ * Fetches the forecast for several locations in one request and stores
+ * each result in the weather cache, so screens open with fresh data.
+ */
+export async function refreshWeatherCache(
+    locations: Coordinates[],
+    units: WeatherUnits,
+    signal?: AbortSignal
+): Promise<void> {
+    if (locations.length === 0) return;
+
+    const params = buildWeatherParams(units);
+    const results = await fetchForecastBatch(locations, params, signal);
+    const fetchedAt = Date.now();
+
+    await Promise.all(
+        results.map((data, i) =>
+            writeCache(buildCacheKey(locations[i].latitude, locations[i].longitude, params), data, fetchedAt)
+        )
+    );
+}
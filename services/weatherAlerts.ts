@@ -0,0 +1,89 @@
+// services/weatherAlerts.ts
+import { getDatabase } from './database';
+import { presentNotification } from './notifications';
+import { fetchForecastBatch } from './openMeteo';
+import { CityData } from './savedCities';
+import { Formatter } from '../utils/format';
+import {
+    ALERT_HOURLY_VARIABLES,
+    AlertSettings,
+    WeatherAlert,
+    describeAlert,
+    evaluateAlerts,
+    getAlertRule,
+} from '../utils/weatherAlerts';
+
+/** Notification records older than this are deleted on each claim. */
+const MAX_RECORD_AGE_MS = 3 * 24 * 60 * 60 * 1000;
+
+export interface LocationAlert extends WeatherAlert {
+    city: CityData;
+}
+
+/**
+ * Fetches the next day's forecast for every location in one request and
+ * returns the alerts raised by the enabled rules, soonest first. The
+ * previous day is included so events that began before midnight keep
+ * their key.
+ */
+export async function checkWeatherAlerts(
+    cities: CityData[],
+    settings: AlertSettings,
+    signal?: AbortSignal
+): Promise<LocationAlert[]> {
+    if (cities.length === 0) return [];
+
+    // Fetched in the API's default units: rule thresholds are in °C and km/h.
+    const forecasts = await fetchForecastBatch(
+        cities,
+        { hourly: ALERT_HOURLY_VARIABLES, forecastDays: 2, pastDays: 1 },
+        signal
+    );
+
+    const now = Date.now();
+    return forecasts
+        .flatMap((forecast, i) => evaluateAlerts(forecast, settings, now).map(alert => ({ ...alert, city: cities[i] })))
+        .sort((a, b) => a.startsAt - b.startsAt);
+}
+
+/** Combines the rounded location with the alert's event, so each event notifies once. */
+const notificationKey = (alert: LocationAlert) =>
+    `${alert.city.latitude.toFixed(2)},${alert.city.longitude.toFixed(2)}:${alert.eventKey}`;
+
+/**
+ * Returns the alerts that have not been notified yet, dropping records
+ * old enough that their events are over.
+ */
+async function findNewAlerts(alerts: LocationAlert[], now: number = Date.now()): Promise<LocationAlert[]> {
+    const db = await getDatabase();
+    await db.runAsync('DELETE FROM alert_notifications WHERE notified_at < ?', now - MAX_RECORD_AGE_MS);
+    const rows = await db.getAllAsync<{ key: string }>('SELECT key FROM alert_notifications');
+    const notified = new Set(rows.map(row => row.key));
+    return alerts.filter(alert => !notified.has(notificationKey(alert)));
+}
+
+async function recordNotified(alert: LocationAlert, now: number = Date.now()): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync(
+        'INSERT OR IGNORE INTO alert_notifications (key, notified_at) VALUES (?, ?)',
+        notificationKey(alert),
+        now
+    );
+}
+
+/**
+ * Fires a local notification for each alert whose event has not been
+ * notified yet. An alert is only recorded once its notification was
+ * shown, so alerts raised while permission is missing fire once it is
+ * granted.
+ */
+export async function notifyNewAlerts(alerts: LocationAlert[], format: Formatter): Promise<void> {
+    const fresh = await findNewAlerts(alerts);
+    for (const alert of fresh) {
+        const shown = await presentNotification(
+            `${format.t(getAlertRule(alert.ruleId).labelKey)} · ${alert.city.city}`,
+            describeAlert(alert, format)
+        );
+        if (shown) await recordNotified(alert);
+    }
+}
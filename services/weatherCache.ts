@@ -0,0 +1,57 @@
+// services/weatherCache.ts
+import { getDatabase } from './database';
+
+/** How long a cached forecast counts as fresh. */
+export const WEATHER_CACHE_TTL_MS = 30 * 60 * 1000;
+
+/** Entries older than this are deleted when new data is written. */
+const MAX_ENTRY_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface CachedEntry<T> {
+    data: T;
+    /** Epoch milliseconds of the successful fetch that produced `data`. */
+    fetchedAt: number;
+}
+
+/**
+ * Builds the cache key for a forecast request. Coordinates are rounded to
+ * two decimals (roughly 1 km) so small GPS jitter still hits the cache;
+ * `params` should hold everything else that changes the response.
+ */
+export function buildCacheKey(latitude: number, longitude: number, params: Record<string, unknown>): string {
+    const sorted = Object.keys(params)
+        .sort()
+        .map(key => `${key}=${JSON.stringify(params[key])}`)
+        .join('&');
+    return `${latitude.toFixed(2)},${longitude.toFixed(2)}?${sorted}`;
+}
+
+export function isStale(fetchedAt: number, now: number = Date.now()): boolean {
+    return now - fetchedAt > WEATHER_CACHE_TTL_MS;
+}
+
+export async function readCache<T>(key: string): Promise<CachedEntry<T> | null> {
+    const db = await getDatabase();
+    const row = await db.getFirstAsync<{ payload: string; fetched_at: number }>(
+        'SELECT payload, fetched_at FROM weather_cache WHERE key = ?',
+        key
+    );
+    if (!row) return null;
+    return { data: JSON.parse(row.payload) as T, fetchedAt: row.fetched_at };
+}
+
+export async function writeCache<T>(key: string, data: T, fetchedAt: number = Date.now()): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync(
+        'INSERT OR REPLACE INTO weather_cache (key, payload, fetched_at) VALUES (?, ?, ?)',
+        key,
+        JSON.stringify(data),
+        fetchedAt
+    );
+    await db.runAsync('DELETE FROM weather_cache WHERE fetched_at < ?', fetchedAt - MAX_ENTRY_AGE_MS);
+}
+
+export async function clearWeatherCache(): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync('DELETE FROM weather_cache');
+}
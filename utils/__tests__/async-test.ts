@@ -0,0 +1,96 @@
+import { chunk, mapSettledWithConcurrency, retryWithBackoff } from '../async';
+
+describe('chunk', () => {
+  it('splits items into chunks of at most the given size', () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    expect(chunk([1, 2], 5)).toEqual([[1, 2]]);
+    expect(chunk([], 3)).toEqual([]);
+  });
+});
+
+describe('mapSettledWithConcurrency', () => {
+  it('never runs more than `limit` tasks at once', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const task = async (item: number) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, item));
+      running--;
+      return item;
+    };
+
+    const results = await mapSettledWithConcurrency([5, 1, 3, 2, 4], 2, task);
+
+    expect(maxRunning).toBe(2);
+    expect(results.map(result => result.status === 'fulfilled' && result.value)).toEqual([5, 1, 3, 2, 4]);
+  });
+
+  it('settles a failed task without affecting the others', async () => {
+    const chunks = chunk(['a', 'b', 'c', 'd', 'e'], 2);
+    const results = await mapSettledWithConcurrency(chunks, 2, async (items, index) => {
+      if (index === 1) throw new Error('offline');
+      return items.map(item => item.toUpperCase());
+    });
+
+    expect(results).toEqual([
+      { status: 'fulfilled', value: ['A', 'B'] },
+      { status: 'rejected', reason: new Error('offline') },
+      { status: 'fulfilled', value: ['E'] },
+    ]);
+  });
+});
+
+describe('retryWithBackoff', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('retries with doubling delays until the task succeeds', async () => {
+    const task = jest
+      .fn<Promise<string>, []>()
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValue('ok');
+
+    const result = retryWithBackoff(task, { baseDelayMs: 100 });
+
+    await jest.advanceTimersByTimeAsync(99);
+    expect(task).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(task).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(200);
+    await expect(result).resolves.toBe('ok');
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('rethrows the last error once retries are used up', async () => {
+    const task = jest.fn<Promise<never>, []>().mockRejectedValue(new Error('offline'));
+
+    const result = retryWithBackoff(task, { retries: 2, baseDelayMs: 10 });
+    const assertion = expect(result).rejects.toThrow('offline');
+    await jest.runAllTimersAsync();
+
+    await assertion;
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry errors rejected by shouldRetry', async () => {
+    const task = jest.fn<Promise<never>, []>().mockRejectedValue(new Error('bad request'));
+
+    await expect(retryWithBackoff(task, { shouldRetry: () => false })).rejects.toThrow('bad request');
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting when aborted', async () => {
+    const controller = new AbortController();
+    const task = jest.fn<Promise<never>, []>().mockRejectedValue(new Error('offline'));
+
+    const result = retryWithBackoff(task, { baseDelayMs: 1000, signal: controller.signal });
+    const assertion = expect(result).rejects.toMatchObject({ name: 'AbortError' });
+    await jest.advanceTimersByTimeAsync(10);
+    controller.abort();
+
+    await assertion;
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
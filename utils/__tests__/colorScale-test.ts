@@ -0,0 +1,82 @@
+import {
+  ColorStop,
+  TEMPERATURE_PALETTES,
+  UNKNOWN_COLOR,
+  getScaleColor,
+  getTemperaturePalette,
+  interpolateColor,
+} from '../colorScale';
+
+const stops: ColorStop[] = [
+  { value: 0, color: [0, 0, 0] },
+  { value: 10, color: [100, 200, 50] },
+  { value: 20, color: [200, 0, 250] },
+];
+
+describe('interpolateColor', () => {
+  it('returns the exact color at a stop', () => {
+    expect(interpolateColor(stops, 0)).toEqual([0, 0, 0]);
+    expect(interpolateColor(stops, 10)).toEqual([100, 200, 50]);
+    expect(interpolateColor(stops, 20)).toEqual([200, 0, 250]);
+  });
+
+  it('interpolates linearly between the enclosing stops', () => {
+    expect(interpolateColor(stops, 5)).toEqual([50, 100, 25]);
+    expect(interpolateColor(stops, 15)).toEqual([150, 100, 150]);
+  });
+
+  it('rounds channels to integers', () => {
+    expect(interpolateColor(stops, 1)).toEqual([10, 20, 5]);
+    expect(interpolateColor(stops, 0.25)).toEqual([3, 5, 1]);
+  });
+
+  it('clamps values outside the stops to the end colors', () => {
+    expect(interpolateColor(stops, -100)).toEqual([0, 0, 0]);
+    expect(interpolateColor(stops, 1000)).toEqual([200, 0, 250]);
+    expect(interpolateColor(stops, -Infinity)).toEqual([0, 0, 0]);
+    expect(interpolateColor(stops, Infinity)).toEqual([200, 0, 250]);
+  });
+
+  it('handles a single stop', () => {
+    const single: ColorStop[] = [{ value: 5, color: [1, 2, 3] }];
+    expect(interpolateColor(single, 0)).toEqual([1, 2, 3]);
+    expect(interpolateColor(single, 10)).toEqual([1, 2, 3]);
+  });
+
+  it('handles duplicate stop values without dividing by zero', () => {
+    const plateau: ColorStop[] = [
+      { value: 0, color: [0, 0, 0] },
+      { value: 10, color: [100, 100, 100] },
+      { value: 10, color: [200, 200, 200] },
+      { value: 20, color: [255, 255, 255] },
+    ];
+    expect(interpolateColor(plateau, 10)).toEqual([100, 100, 100]);
+    expect(interpolateColor(plateau, 15)).toEqual([228, 228, 228]);
+  });
+});
+
+describe('getScaleColor', () => {
+  it('formats the color with the given opacity', () => {
+    expect(getScaleColor(stops, 5, 0.3)).toBe('rgba(50, 100, 25, 0.3)');
+    expect(getScaleColor(stops, 5)).toBe('rgba(50, 100, 25, 0.5)');
+  });
+
+  it('uses the unknown color for missing values', () => {
+    expect(getScaleColor(stops, null)).toBe(UNKNOWN_COLOR);
+    expect(getScaleColor(stops, NaN)).toBe(UNKNOWN_COLOR);
+  });
+});
+
+describe('temperature palettes', () => {
+  it.each(TEMPERATURE_PALETTES.map((palette) => [palette.id, palette.stops] as const))(
+    '%s stops are sorted by ascending value',
+    (_, paletteStops) => {
+      const values = paletteStops.map((stop) => stop.value);
+      expect(values).toEqual([...values].sort((a, b) => a - b));
+    }
+  );
+
+  it('falls back to the default palette for unknown ids', () => {
+    expect(getTemperaturePalette('missing' as never).id).toBe('default');
+  });
+});
@@ -0,0 +1,106 @@
+import {
+  convertPrecipitation,
+  convertTemperature,
+  convertWindSpeed,
+  createFormatter,
+  formatLastUpdated,
+  formatNumber,
+  formatPercent,
+  formatPrecipitation,
+  formatTemperature,
+  formatTime,
+  formatWeekday,
+  formatWindSpeed,
+} from '../format';
+import { createTranslator } from '../i18n';
+
+// Some ICU versions put a narrow no-break space before "AM"/"PM".
+const normalizeSpaces = (text: string) => text.replace(/\s/g, ' ');
+
+describe('unit conversion', () => {
+  it('converts temperatures both ways', () => {
+    expect(convertTemperature(100, 'celsius', 'fahrenheit')).toBe(212);
+    expect(convertTemperature(-40, 'fahrenheit', 'celsius')).toBe(-40);
+    expect(convertTemperature(68, 'fahrenheit', 'celsius')).toBe(20);
+    expect(convertTemperature(21.5, 'celsius', 'celsius')).toBe(21.5);
+  });
+
+  it('converts wind speeds both ways', () => {
+    expect(convertWindSpeed(1.609344, 'kmh', 'mph')).toBeCloseTo(1);
+    expect(convertWindSpeed(10, 'mph', 'kmh')).toBeCloseTo(16.09344);
+    expect(convertWindSpeed(30, 'kmh', 'kmh')).toBe(30);
+  });
+
+  it('converts precipitation both ways', () => {
+    expect(convertPrecipitation(25.4, 'mm', 'inch')).toBeCloseTo(1);
+    expect(convertPrecipitation(0.5, 'inch', 'mm')).toBeCloseTo(12.7);
+    expect(convertPrecipitation(3, 'mm', 'mm')).toBe(3);
+  });
+
+  it('rounds to the precision of each unit', () => {
+    expect(formatTemperature(convertTemperature(21.7, 'celsius', 'fahrenheit'), 'fahrenheit')).toBe('71°F');
+    expect(formatTemperature(-0.4, 'celsius')).toBe('0°C');
+    expect(formatWindSpeed(convertWindSpeed(50, 'kmh', 'mph'), 'mph')).toBe('31 mph');
+    expect(formatWindSpeed(12.5, 'kmh')).toBe('13 km/h');
+    expect(formatPrecipitation(convertPrecipitation(3, 'mm', 'inch'), 'inch')).toBe('0.12 in');
+    expect(formatPrecipitation(2.46, 'mm')).toBe('2.5 mm');
+  });
+});
+
+describe('numbers', () => {
+  it('uses the locale separators', () => {
+    expect(formatNumber(1234.56, 1, 'en')).toBe('1,234.6');
+    expect(formatNumber(1234.56, 1, 'de')).toBe('1.234,6');
+  });
+
+  it('never shows a negative zero', () => {
+    expect(formatNumber(-0.4)).toBe('0');
+  });
+
+  it('places the percent sign per locale', () => {
+    expect(formatPercent(50, 'en')).toBe('50%');
+    expect(normalizeSpaces(formatPercent(50, 'fr'))).toBe('50 %');
+  });
+});
+
+describe('Open-Meteo times', () => {
+  it('shows the wall-clock time of the string, not the device time', () => {
+    expect(formatTime('2025-01-31T00:05', '24h', 'en')).toBe('00:05');
+    expect(formatTime('2025-01-31T14:00', '24h', 'de')).toBe('14:00');
+    expect(normalizeSpaces(formatTime('2025-01-31T14:00', '12h', 'en'))).toBe('2:00 PM');
+  });
+
+  it('names weekdays in the locale', () => {
+    expect(formatWeekday('2025-01-31', 'en')).toBe('Fri');
+    expect(formatWeekday('2025-01-31T23:00', 'es')).toBe('vie');
+  });
+});
+
+describe('formatLastUpdated', () => {
+  const now = Date.UTC(2025, 0, 31, 12);
+
+  it('describes the age in the translator language', () => {
+    const t = createTranslator('es');
+    expect(formatLastUpdated(now - 30 * 1000, t, now)).toBe('ahora mismo');
+    expect(formatLastUpdated(now - 5 * 60 * 1000, t, now)).toBe('hace 5 min');
+    expect(formatLastUpdated(now - 48 * 60 * 60 * 1000, t, now)).toBe('hace 2 días');
+  });
+});
+
+describe('createFormatter', () => {
+  it('formats values and conditions for the locale', () => {
+    const format = createFormatter({
+      temperatureUnit: 'celsius',
+      windSpeedUnit: 'kmh',
+      precipitationUnit: 'mm',
+      timeFormat: '24h',
+      language: 'de',
+      locale: 'de-DE',
+    });
+
+    expect(format.precipitation(2.25)).toBe('2,3 mm');
+    expect(format.temperature(68, 'fahrenheit')).toBe('20°C');
+    expect(format.condition(61)).toBe('Leichter Regen');
+    expect(format.t('weather.feelsLike', { temperature: format.temperature(-3.2) })).toBe('Gefühlt -3°C');
+  });
+});
@@ -0,0 +1,34 @@
+import { createTranslator, resolveLanguage, translate } from '../i18n';
+
+describe('translate', () => {
+  it('fills in placeholders', () => {
+    expect(translate('en', 'weather.updated', { time: '5 min ago' })).toBe('Updated 5 min ago');
+    expect(translate('es', 'map.zonesFailed', { failed: 2, total: 9 })).toBe(
+      'No se pudieron cargar 2 de 9 zonas. Se reintentará en la próxima actualización.'
+    );
+  });
+
+  it('leaves placeholders without a param', () => {
+    expect(translate('en', 'search.noResults')).toBe('No places found for "{query}".');
+  });
+
+  it('binds a translator to a language', () => {
+    expect(createTranslator('de')('time.now')).toBe('Jetzt');
+  });
+});
+
+describe('resolveLanguage', () => {
+  it('follows the first supported device language', () => {
+    expect(resolveLanguage('system', ['pt-BR', 'es-MX', 'en-US'])).toEqual({ language: 'es', locale: 'es-MX' });
+  });
+
+  it('falls back to English', () => {
+    expect(resolveLanguage('system', ['ja-JP'])).toEqual({ language: 'en', locale: 'en' });
+    expect(resolveLanguage('system', [])).toEqual({ language: 'en', locale: 'en' });
+  });
+
+  it('prefers the override but keeps a matching device region', () => {
+    expect(resolveLanguage('fr', ['en-GB'])).toEqual({ language: 'fr', locale: 'fr' });
+    expect(resolveLanguage('en', ['de-DE', 'en-GB'])).toEqual({ language: 'en', locale: 'en-GB' });
+  });
+});
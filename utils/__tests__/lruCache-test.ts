@@ -0,0 +1,32 @@
+import { createLruCache } from '../lruCache';
+
+describe('createLruCache', () => {
+  it('evicts the least recently used entry', () => {
+    const cache = createLruCache<string, number>(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+
+    expect(cache.has('a')).toBe(true);
+    expect(cache.has('b')).toBe(false);
+    expect(cache.has('c')).toBe(true);
+    expect(cache.size).toBe(2);
+  });
+
+  it('refreshes an entry when it is overwritten', () => {
+    const cache = createLruCache<string, number>(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.set('a', 10);
+    cache.set('c', 3);
+
+    expect(cache.get('a')).toBe(10);
+    expect(cache.has('b')).toBe(false);
+  });
+
+  it('returns undefined for missing keys', () => {
+    const cache = createLruCache<string, number>(1);
+    expect(cache.get('missing')).toBeUndefined();
+  });
+});
@@ -0,0 +1,54 @@
+import { MAX_TILES, getCellSize, getVisibleTiles } from '../mapGrid';
+
+const region = (latitude: number, longitude: number, delta: number) => ({
+  latitude,
+  longitude,
+  latitudeDelta: delta,
+  longitudeDelta: delta,
+});
+
+describe('getCellSize', () => {
+  it('grows with the visible span', () => {
+    expect(getCellSize(region(48, 2, 0.05))).toBe(0.01);
+    expect(getCellSize(region(48, 2, 0.5))).toBe(0.1);
+    expect(getCellSize(region(48, 2, 5))).toBe(1);
+  });
+
+  it('stops at the largest size when zoomed far out', () => {
+    expect(getCellSize(region(0, 0, 300))).toBe(5);
+  });
+});
+
+describe('getVisibleTiles', () => {
+  it('keeps the keys of tiles that stay in view across a pan', () => {
+    const before = getVisibleTiles(region(48.2, 2.3, 0.3));
+    const after = getVisibleTiles(region(48.23, 2.34, 0.3));
+    const afterByKey = new Map(after.map((tile) => [tile.key, tile]));
+
+    const shared = before.filter((tile) => afterByKey.has(tile.key));
+    expect(shared.length).toBeGreaterThan(0);
+    shared.forEach((tile) => expect(afterByKey.get(tile.key)).toEqual(tile));
+  });
+
+  it('uses different keys at a different zoom', () => {
+    const near = new Set(getVisibleTiles(region(48.2, 2.3, 0.05)).map((tile) => tile.key));
+    const far = getVisibleTiles(region(48.2, 2.3, 2));
+    expect(far.some((tile) => near.has(tile.key))).toBe(false);
+  });
+
+  it('covers the visible region', () => {
+    const visible = region(48.2, 2.3, 0.3);
+    const tiles = getVisibleTiles(visible);
+    const latitudes = tiles.flatMap((tile) => tile.coordinates.map((c) => c.latitude));
+    const longitudes = tiles.flatMap((tile) => tile.coordinates.map((c) => c.longitude));
+
+    expect(Math.min(...latitudes)).toBeLessThanOrEqual(visible.latitude - visible.latitudeDelta / 2);
+    expect(Math.max(...latitudes)).toBeGreaterThanOrEqual(visible.latitude + visible.latitudeDelta / 2);
+    expect(Math.min(...longitudes)).toBeLessThanOrEqual(visible.longitude - visible.longitudeDelta / 2);
+    expect(Math.max(...longitudes)).toBeGreaterThanOrEqual(visible.longitude + visible.longitudeDelta / 2);
+  });
+
+  it(`never returns more than ${MAX_TILES} tiles`, () => {
+    expect(getVisibleTiles(region(0, 0, 120))).toHaveLength(MAX_TILES);
+  });
+});
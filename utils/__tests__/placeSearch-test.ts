@@ -0,0 +1,52 @@
+import { Place } from '../../services/geocoding';
+import { highlightMatches, rankPlaces } from '../placeSearch';
+
+const place = (name: string, latitude: number, longitude: number, importance?: number): Place => ({
+  id: name,
+  name,
+  latitude,
+  longitude,
+  type: 'city',
+  importance,
+});
+
+describe('highlightMatches', () => {
+  it('marks every occurrence of the query', () => {
+    expect(highlightMatches('Baden-Baden', 'baden')).toEqual([
+      { text: 'Baden', match: true },
+      { text: '-', match: false },
+      { text: 'Baden', match: true },
+    ]);
+  });
+
+  it('ignores accents but keeps the original spelling', () => {
+    expect(highlightMatches('São Paulo', 'sao')).toEqual([
+      { text: 'São', match: true },
+      { text: ' Paulo', match: false },
+    ]);
+  });
+
+  it('returns the text unmarked for an empty query', () => {
+    expect(highlightMatches('Oslo', ' ')).toEqual([{ text: 'Oslo', match: false }]);
+  });
+});
+
+describe('rankPlaces', () => {
+  const illinois = place('Springfield, IL', 39.8, -89.65, 0.5);
+  const massachusetts = place('Springfield, MA', 42.1, -72.59, 0.5);
+
+  it('orders by importance without an origin', () => {
+    const minor = place('Minor', 0, 0, 0.1);
+    const major = place('Major', 0, 0, 0.9);
+    expect(rankPlaces([minor, major])).toEqual([major, minor]);
+  });
+
+  it('favors places near the origin', () => {
+    const boston = { latitude: 42.36, longitude: -71.06 };
+    expect(rankPlaces([illinois, massachusetts], boston)).toEqual([massachusetts, illinois]);
+  });
+
+  it('keeps the provider order for equal scores', () => {
+    expect(rankPlaces([illinois, massachusetts])).toEqual([illinois, massachusetts]);
+  });
+});
@@ -0,0 +1,50 @@
+import { DevicePosition } from '../../services/location';
+import { STATIONARY_AFTER_MS, getTrackingRequest, updateRestAnchor } from '../tracking';
+
+const fix = (latitude: number, timestamp: number): DevicePosition => ({
+  latitude,
+  longitude: 0,
+  accuracy: 5,
+  heading: null,
+  speed: null,
+  timestamp,
+});
+
+describe('getTrackingRequest', () => {
+  const moving = { stationary: false, background: false };
+
+  it('asks for less while at rest', () => {
+    const active = getTrackingRequest('follow', moving);
+    const resting = getTrackingRequest('follow', { ...moving, stationary: true });
+    expect(resting.accuracy!).toBeLessThan(active.accuracy!);
+    expect(resting.timeInterval!).toBeGreaterThan(active.timeInterval!);
+  });
+
+  it('uses the same low-power request in the background for every mode', () => {
+    const background = { stationary: false, background: true };
+    expect(getTrackingRequest('followHeading', background)).toEqual(getTrackingRequest('free', background));
+    expect(getTrackingRequest('free', background).timeInterval!).toBeGreaterThan(
+      getTrackingRequest('free', moving).timeInterval!
+    );
+  });
+});
+
+describe('updateRestAnchor', () => {
+  it('becomes stationary after staying within the radius long enough', () => {
+    let state = updateRestAnchor(null, fix(0, 0));
+    expect(state.stationary).toBe(false);
+
+    // ~11 m away: GPS jitter, not movement.
+    state = updateRestAnchor(state.anchor, fix(0.0001, STATIONARY_AFTER_MS - 1));
+    expect(state.stationary).toBe(false);
+    state = updateRestAnchor(state.anchor, fix(0.0001, STATIONARY_AFTER_MS));
+    expect(state.stationary).toBe(true);
+  });
+
+  it('moves the anchor when the user leaves the radius', () => {
+    const resting = updateRestAnchor(updateRestAnchor(null, fix(0, 0)).anchor, fix(0, STATIONARY_AFTER_MS));
+    const moved = updateRestAnchor(resting.anchor, fix(0.001, STATIONARY_AFTER_MS + 1000));
+    expect(moved.stationary).toBe(false);
+    expect(moved.anchor.since).toBe(STATIONARY_AFTER_MS + 1000);
+  });
+});
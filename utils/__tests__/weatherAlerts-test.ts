@@ -0,0 +1,140 @@
+import { createFormatter } from '../format';
+import { AlertForecast, DEFAULT_ALERT_SETTINGS, describeAlert, evaluateAlerts } from '../weatherAlerts';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Builds a UTC forecast of `hours` hours from 2025-01-01T00:00 with calm, mild weather. */
+function makeForecast(hours: number, overrides: Partial<AlertForecast['hourly']> = {}): AlertForecast {
+  const time = Array.from({ length: hours }, (_, i) => new Date(Date.UTC(2025, 0, 1, i)).toISOString().slice(0, 16));
+  return {
+    latitude: 0,
+    longitude: 0,
+    elevation: 0,
+    generationtime_ms: 0,
+    utc_offset_seconds: 0,
+    timezone: 'GMT',
+    timezone_abbreviation: 'GMT',
+    hourly: {
+      time,
+      weather_code: new Array(hours).fill(0),
+      temperature_2m: new Array(hours).fill(15),
+      wind_gusts_10m: new Array(hours).fill(10),
+      ...overrides,
+    },
+    hourly_units: { time: 'iso8601', weather_code: 'wmo code', temperature_2m: '°C', wind_gusts_10m: 'km/h' },
+  };
+}
+
+const START = Date.UTC(2025, 0, 1);
+
+describe('evaluateAlerts', () => {
+  it('returns nothing for calm weather', () => {
+    expect(evaluateAlerts(makeForecast(48), DEFAULT_ALERT_SETTINGS, START)).toEqual([]);
+  });
+
+  it('merges consecutive thunderstorm hours into one alert', () => {
+    const weather_code = new Array(48).fill(0);
+    weather_code[3] = 95;
+    weather_code[4] = 99;
+    weather_code[5] = 96;
+    const alerts = evaluateAlerts(makeForecast(48, { weather_code }), DEFAULT_ALERT_SETTINGS, START);
+
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({
+      ruleId: 'thunderstorm',
+      start: '2025-01-01T03:00',
+      end: '2025-01-01T05:00',
+      startsAt: START + 3 * HOUR_MS,
+      peak: null,
+    });
+  });
+
+  it('reports the peak value for threshold rules', () => {
+    const wind_gusts_10m = new Array(48).fill(10);
+    wind_gusts_10m[2] = 80;
+    wind_gusts_10m[3] = 95;
+    const temperature_2m = new Array(48).fill(15);
+    temperature_2m[6] = -22;
+    temperature_2m[7] = -25;
+    const alerts = evaluateAlerts(makeForecast(48, { wind_gusts_10m, temperature_2m }), DEFAULT_ALERT_SETTINGS, START);
+
+    expect(alerts.map((alert) => [alert.ruleId, alert.peak])).toEqual([
+      ['windGusts', 95],
+      ['extremeCold', -25],
+    ]);
+  });
+
+  it('detects heavy snow and freezing rain codes', () => {
+    const weather_code = new Array(48).fill(0);
+    weather_code[1] = 75;
+    weather_code[5] = 73; // Moderate snow is no alert
+    weather_code[10] = 67;
+    const alerts = evaluateAlerts(makeForecast(48, { weather_code }), DEFAULT_ALERT_SETTINGS, START);
+
+    expect(alerts.map((alert) => alert.ruleId)).toEqual(['heavySnow', 'freezingRain']);
+  });
+
+  it('skips disabled rules', () => {
+    const weather_code = new Array(48).fill(95);
+    const settings = { ...DEFAULT_ALERT_SETTINGS, enabled: { ...DEFAULT_ALERT_SETTINGS.enabled, thunderstorm: false } };
+
+    expect(evaluateAlerts(makeForecast(48, { weather_code }), settings, START)).toEqual([]);
+  });
+
+  it('only looks at the hours from now until the horizon', () => {
+    const weather_code = new Array(48).fill(0);
+    weather_code[1] = 95; // Already past
+    weather_code[40] = 95; // Beyond 24 hours
+    const alerts = evaluateAlerts(makeForecast(48, { weather_code }), DEFAULT_ALERT_SETTINGS, START + 2 * HOUR_MS);
+
+    expect(alerts).toEqual([]);
+  });
+
+  it('returns nothing once the forecast has ended', () => {
+    const weather_code = new Array(48).fill(95);
+    expect(evaluateAlerts(makeForecast(48, { weather_code }), DEFAULT_ALERT_SETTINGS, START + 72 * HOUR_MS)).toEqual([]);
+  });
+
+  it('keeps the key of an ongoing event as the hours go by', () => {
+    const weather_code = new Array(48).fill(0);
+    weather_code.fill(95, 2, 20);
+    const forecast = makeForecast(48, { weather_code });
+    const [before] = evaluateAlerts(forecast, DEFAULT_ALERT_SETTINGS, START);
+    const [during] = evaluateAlerts(forecast, DEFAULT_ALERT_SETTINGS, START + 9 * HOUR_MS);
+
+    expect(during.start).toBe('2025-01-01T09:00');
+    expect(during.eventKey).toBe(before.eventKey);
+  });
+
+  it('gives separate events different keys', () => {
+    const weather_code = new Array(48).fill(0);
+    weather_code[1] = 95;
+    weather_code[3] = 95;
+    const [first, second] = evaluateAlerts(makeForecast(48, { weather_code }), DEFAULT_ALERT_SETTINGS, START);
+
+    expect(first.eventKey).not.toBe(second.eventKey);
+  });
+});
+
+describe('describeAlert', () => {
+  const format = createFormatter({
+    temperatureUnit: 'fahrenheit',
+    windSpeedUnit: 'mph',
+    precipitationUnit: 'mm',
+    timeFormat: '24h',
+    language: 'en',
+    locale: 'en',
+  });
+
+  it('converts peaks to the preferred units', () => {
+    const base = { start: '2025-01-01T14:00', end: '2025-01-01T15:00', startsAt: 0, eventKey: '' };
+
+    expect(describeAlert({ ...base, ruleId: 'windGusts', peak: 100 }, format)).toBe('Wind gusts up to 62 mph from 14:00');
+    expect(describeAlert({ ...base, ruleId: 'extremeHeat', peak: 40 }, format)).toBe(
+      'Temperatures up to 104°F from 14:00'
+    );
+    expect(describeAlert({ ...base, ruleId: 'thunderstorm', peak: null }, format)).toBe(
+      'Thunderstorms expected from 14:00'
+    );
+  });
+});
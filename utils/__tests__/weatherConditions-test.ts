@@ -0,0 +1,51 @@
+import { LANGUAGES } from '../i18n';
+import {
+  WMO_CODES,
+  getConditionSeverity,
+  getWeatherCondition,
+  getWeatherDescription,
+  getWeatherIcon,
+  getWeatherSymbol,
+} from '../weatherConditions';
+
+describe('weather conditions', () => {
+  it('covers every WMO code Open-Meteo reports', () => {
+    expect(WMO_CODES).toEqual([
+      0, 1, 2, 3, 45, 48, 51, 53, 55, 56, 57, 61, 63, 65, 66, 67, 71, 73, 75, 77, 80, 81, 82, 85, 86, 95, 96, 99,
+    ]);
+  });
+
+  it('describes every code in every language', () => {
+    for (const { value: language } of LANGUAGES) {
+      for (const code of WMO_CODES) {
+        expect(getWeatherDescription(code, language)).not.toBe(getWeatherDescription(-1, language));
+      }
+    }
+  });
+
+  it('tells intensities and hail apart', () => {
+    expect(getWeatherDescription(51)).toBe('Light drizzle');
+    expect(getWeatherDescription(55)).toBe('Dense drizzle');
+    expect(getWeatherDescription(67)).toBe('Heavy freezing rain');
+    expect(getWeatherDescription(95)).toBe('Thunderstorm');
+    expect(getWeatherDescription(99, 'de')).toBe('Gewitter mit starkem Hagel');
+  });
+
+  it('rates freezing precipitation and thunderstorms as severe', () => {
+    for (const code of [56, 57, 66, 67, 95, 96, 99]) {
+      expect(getConditionSeverity(code)).toBe('severe');
+    }
+    expect(getConditionSeverity(0)).toBe('none');
+  });
+
+  it('picks night variants for clear skies only', () => {
+    expect(getWeatherIcon(0, false)).toBe('moon');
+    expect(getWeatherSymbol(2, false)).toBe('cloud.moon.fill');
+    expect(getWeatherIcon(63, false)).toBe(getWeatherIcon(63, true));
+  });
+
+  it('falls back to an unknown condition', () => {
+    expect(getWeatherCondition(42)).toMatchObject({ condition: 'unknown', severity: 'none' });
+    expect(getWeatherDescription(42, 'fr')).toBe('Inconnu');
+  });
+});
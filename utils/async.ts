@@ -0,0 +1,98 @@
+// utils/async.ts
+
+/**
+ * Splits an array into consecutive chunks of at most `size` items.
+ */
+export function chunk<T>(items: readonly T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) {
+        chunks.push(items.slice(i, i + size));
+    }
+    return chunks;
+}
+
+/**
+ * Runs `task` over every item with at most `limit` tasks in flight, and
+ * reports each outcome like `Promise.allSettled` so one failure does not
+ * discard the other results. Results keep the order of `items`.
+ */
+export async function mapSettledWithConcurrency<T, R>(
+    items: readonly T[],
+    limit: number,
+    task: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+    const results: PromiseSettledResult<R>[] = new Array(items.length);
+    let next = 0;
+
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            try {
+                results[index] = { status: 'fulfilled', value: await task(items[index], index) };
+            } catch (reason) {
+                results[index] = { status: 'rejected', reason };
+            }
+        }
+    };
+
+    const workers = Array.from({ length: Math.min(limit, items.length) }, worker);
+    await Promise.all(workers);
+    return results;
+}
+
+/**
+ * Resolves after `ms` milliseconds, or rejects with an AbortError as soon
+ * as `signal` is aborted.
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const abortError = () => {
+            const err = new Error('Aborted');
+            err.name = 'AbortError';
+            return err;
+        };
+        if (signal?.aborted) {
+            reject(abortError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(abortError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+export interface RetryOptions {
+    /** Attempts after the first one. */
+    retries?: number;
+    /** Wait before the first retry; doubled for each one after. */
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    /** Whether an error is worth retrying. Defaults to always. */
+    shouldRetry?: (err: unknown) => boolean;
+    /** Stops waiting between attempts when aborted. */
+    signal?: AbortSignal;
+}
+
+/**
+ * Runs `task`, retrying with exponential backoff while it fails with an
+ * error `shouldRetry` accepts. The last error is rethrown.
+ */
+export async function retryWithBackoff<T>(
+    task: () => Promise<T>,
+    { retries = 3, baseDelayMs = 1000, maxDelayMs = 10000, shouldRetry = () => true, signal }: RetryOptions = {}
+): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await task();
+        } catch (err) {
+            if (attempt >= retries || signal?.aborted || !shouldRetry(err)) throw err;
+            await delay(Math.min(baseDelayMs * 2 ** attempt, maxDelayMs), signal);
+        }
+    }
+}
@@ -0,0 +1,124 @@
+// utils/colorScale.ts
+import { MessageKey } from './i18n';
+
+export type RGB = [number, number, number];
+
+export interface ColorStop {
+    value: number;
+    color: RGB;
+}
+
+/** Fill used when a value is unknown. */
+export const UNKNOWN_COLOR = 'rgba(128, 128, 128, 0.3)';
+
+// Helper to convert a color tuple to a rgba string
+export function rgbaFromColor(color: RGB, alpha: number = 0.5): string {
+    return `rgba(${color[0]}, ${color[1]}, ${color[2]}, ${alpha})`;
+}
+
+/**
+ * Linearly interpolates the color for `value` between the two stops that
+ * enclose it. Values outside the stops take the nearest end color.
+ * `stops` must be sorted by ascending value.
+ */
+export function interpolateColor(stops: ColorStop[], value: number): RGB {
+    // If value is below the lowest stop, return the lowest color.
+    if (value <= stops[0].value) return stops[0].color;
+
+    // If value is above the highest stop, return the highest color.
+    const last = stops[stops.length - 1];
+    if (value >= last.value) return last.color;
+
+    // Interpolate between the two stops that enclose the value.
+    for (let i = 0; i < stops.length - 1; i++) {
+        const start = stops[i];
+        const end = stops[i + 1];
+
+        if (value >= start.value && value <= end.value) {
+            const factor = (value - start.value) / (end.value - start.value);
+            return [
+                Math.round(start.color[0] + factor * (end.color[0] - start.color[0])),
+                Math.round(start.color[1] + factor * (end.color[1] - start.color[1])),
+                Math.round(start.color[2] + factor * (end.color[2] - start.color[2])),
+            ];
+        }
+    }
+
+    // Fallback (only reached for NaN)
+    return last.color;
+}
+
+/**
+ * Returns a semi-transparent fill color for a value on the given scale.
+ */
+export function getScaleColor(stops: ColorStop[], value: number | null, alpha: number = 0.5): string {
+    if (value === null || Number.isNaN(value)) return UNKNOWN_COLOR;
+    return rgbaFromColor(interpolateColor(stops, value), alpha);
+}
+
+export type TemperaturePaletteId = 'default' | 'colorblind' | 'highContrast';
+
+export interface TemperaturePalette {
+    id: TemperaturePaletteId;
+    labelKey: MessageKey;
+    /** Stops in °C, sorted by ascending value. */
+    stops: ColorStop[];
+}
+
+export const TEMPERATURE_PALETTES: TemperaturePalette[] = [
+    {
+        id: 'default',
+        labelKey: 'palette.default',
+        stops: [
+            { value: -10, color: [0, 0, 139] },     // Very dark blue
+            { value: -7.5, color: [0, 0, 205] },    // Dark blue
+            { value: -5, color: [0, 0, 255] },      // Blue
+            { value: -2.5, color: [173, 216, 230] },// Light blue
+            { value: 0, color: [240, 248, 255] },   // Blue whitish blue
+            { value: 2.5, color: [255, 255, 224] }, // Very light yellow
+            { value: 5, color: [255, 255, 153] },   // Light yellow
+            { value: 7.5, color: [255, 255, 0] },   // Yellow
+            { value: 10, color: [255, 255, 0] },    // Yellow (plateau)
+            { value: 12.5, color: [204, 204, 0] },  // Dark yellow
+            { value: 15, color: [255, 165, 100] },  // Light orange
+            { value: 17.5, color: [255, 140, 0] },  // Orange
+            { value: 20, color: [255, 120, 0] },    // Dark orange
+            { value: 25, color: [255, 80, 80] },    // Light red
+            { value: 28, color: [255, 0, 0] },      // Red
+            { value: 32, color: [139, 0, 0] },      // Dark red
+            { value: 35, color: [100, 0, 0] },      // Very dark red
+        ],
+    },
+    {
+        // Blue to orange only, which stays distinguishable with red-green
+        // color vision deficiencies (Okabe-Ito hues).
+        id: 'colorblind',
+        labelKey: 'palette.colorblind',
+        stops: [
+            { value: -10, color: [0, 60, 120] },    // Deep blue
+            { value: -2.5, color: [0, 114, 178] },  // Blue
+            { value: 5, color: [86, 180, 233] },    // Sky blue
+            { value: 12.5, color: [247, 247, 247] },// Neutral
+            { value: 20, color: [230, 159, 0] },    // Orange
+            { value: 27.5, color: [213, 94, 0] },   // Vermillion
+            { value: 35, color: [120, 50, 0] },     // Dark brown
+        ],
+    },
+    {
+        // Few, saturated steps for outdoor or low-quality screens.
+        id: 'highContrast',
+        labelKey: 'palette.highContrast',
+        stops: [
+            { value: -10, color: [0, 0, 0] },       // Black
+            { value: 0, color: [0, 0, 255] },       // Blue
+            { value: 10, color: [0, 255, 255] },    // Cyan
+            { value: 20, color: [255, 255, 0] },    // Yellow
+            { value: 30, color: [255, 0, 0] },      // Red
+            { value: 35, color: [255, 0, 255] },    // Magenta
+        ],
+    },
+];
+
+export function getTemperaturePalette(id: TemperaturePaletteId): TemperaturePalette {
+    return TEMPERATURE_PALETTES.find(palette => palette.id === id) ?? TEMPERATURE_PALETTES[0];
+}
@@ -0,0 +1,191 @@
+// utils/format.ts
+import { PrecipitationUnit, TemperatureUnit } from '../services/openMeteo';
+import { Language, Translator, createTranslator } from './i18n';
+import { getWeatherDescription } from './weatherConditions';
+
+/**
+ * Describes how long ago a timestamp was, e.g. "just now", "5 min ago",
+ * "3 h ago" or "2 days ago". Hermes has no Intl.RelativeTimeFormat, so
+ * the phrases come from the message catalogs.
+ */
+export function formatLastUpdated(timestamp: number, t: Translator, now: number = Date.now()): string {
+    const minutes = Math.floor((now - timestamp) / 60000);
+    if (minutes < 1) return t('time.justNow');
+    if (minutes < 60) return t('time.minutesAgo', { count: minutes });
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return t('time.hoursAgo', { count: hours });
+    const days = Math.floor(hours / 24);
+    return days === 1 ? t('time.dayAgo') : t('time.daysAgo', { count: days });
+}
+
+/**
+ * Joins a city's name with its state and country, skipping whichever
+ * parts are unknown, e.g. "Banff, Alberta, Canada" or "Singapore".
+ */
+export function formatCityName({ city, state, country }: { city: string; state?: string; country?: string }): string {
+    return [city, state, country].filter(Boolean).join(', ');
+}
+
+// --------------------
+// Units
+// --------------------
+/** The wind speed units offered in settings; a subset of what the API supports. */
+export type DisplayWindSpeedUnit = 'kmh' | 'mph';
+export type TimeFormat = '12h' | '24h';
+
+export function convertTemperature(value: number, from: TemperatureUnit, to: TemperatureUnit): number {
+    if (from === to) return value;
+    return to === 'fahrenheit' ? (value * 9) / 5 + 32 : ((value - 32) * 5) / 9;
+}
+
+export function convertWindSpeed(value: number, from: DisplayWindSpeedUnit, to: DisplayWindSpeedUnit): number {
+    if (from === to) return value;
+    return to === 'mph' ? value / 1.609344 : value * 1.609344;
+}
+
+export function convertPrecipitation(value: number, from: PrecipitationUnit, to: PrecipitationUnit): number {
+    if (from === to) return value;
+    return to === 'inch' ? value / 25.4 : value * 25.4;
+}
+
+// --------------------
+// Numbers and dates
+// --------------------
+// Building an Intl formatter is much slower than using one, so they are
+// kept per locale and options.
+const numberFormats = new Map<string, Intl.NumberFormat>();
+const dateTimeFormats = new Map<string, Intl.DateTimeFormat>();
+
+function getNumberFormat(locale: string, options: Intl.NumberFormatOptions): Intl.NumberFormat {
+    const key = `${locale}|${JSON.stringify(options)}`;
+    let format = numberFormats.get(key);
+    if (!format) {
+        format = new Intl.NumberFormat(locale, options);
+        numberFormats.set(key, format);
+    }
+    return format;
+}
+
+function getDateTimeFormat(locale: string, options: Intl.DateTimeFormatOptions): Intl.DateTimeFormat {
+    const key = `${locale}|${JSON.stringify(options)}`;
+    let format = dateTimeFormats.get(key);
+    if (!format) {
+        format = new Intl.DateTimeFormat(locale, options);
+        dateTimeFormats.set(key, format);
+    }
+    return format;
+}
+
+/**
+ * Formats a number with the locale's separators, rounded to
+ * `fractionDigits`, e.g. "1,234.5" in English or "1.234,5" in German.
+ */
+export function formatNumber(value: number, fractionDigits: number = 0, locale: string = 'en'): string {
+    const factor = 10 ** fractionDigits;
+    // `|| 0` turns a rounded -0 into 0, so "-0°C" is never shown.
+    const rounded = Math.round(value * factor) / factor || 0;
+    return getNumberFormat(locale, {
+        minimumFractionDigits: fractionDigits,
+        maximumFractionDigits: fractionDigits,
+    }).format(rounded);
+}
+
+/**
+ * Formats a temperature that is already expressed in `unit`, e.g. "21°C".
+ */
+export function formatTemperature(value: number, unit: TemperatureUnit, locale: string = 'en'): string {
+    return `${formatNumber(value, 0, locale)}°${unit === 'fahrenheit' ? 'F' : 'C'}`;
+}
+
+export function formatWindSpeed(value: number, unit: DisplayWindSpeedUnit, locale: string = 'en'): string {
+    return `${formatNumber(value, 0, locale)} ${unit === 'mph' ? 'mph' : 'km/h'}`;
+}
+
+export function formatPrecipitation(value: number, unit: PrecipitationUnit, locale: string = 'en'): string {
+    return unit === 'inch' ? `${formatNumber(value, 2, locale)} in` : `${formatNumber(value, 1, locale)} mm`;
+}
+
+/**
+ * Formats a 0–100 value as a percentage; some locales put a space
+ * before the sign ("50 %").
+ */
+export function formatPercent(value: number, locale: string = 'en'): string {
+    return getNumberFormat(locale, { style: 'percent', maximumFractionDigits: 0 }).format(Math.round(value) / 100 || 0);
+}
+
+/**
+ * Reads one of Open-Meteo's local ISO strings ("2025-01-31T14:00", or
+ * "2025-01-31" for daily values) as if it were UTC. Formatting the result
+ * in UTC then shows the location's wall-clock time rather than the
+ * device's.
+ */
+function parseWallClock(time: string): Date {
+    return new Date(`${time.length === 10 ? `${time}T00:00` : time}Z`);
+}
+
+/**
+ * Formats the clock time of an Open-Meteo local ISO string in the
+ * location's time, e.g. "14:00" or "2:00 PM" depending on `format`.
+ */
+export function formatTime(time: string, format: TimeFormat, locale: string = 'en'): string {
+    return getDateTimeFormat(locale, {
+        hour: format === '24h' ? '2-digit' : 'numeric',
+        minute: '2-digit',
+        hourCycle: format === '24h' ? 'h23' : 'h12',
+        timeZone: 'UTC',
+    }).format(parseWallClock(time));
+}
+
+/**
+ * Formats the short weekday name of an Open-Meteo date or local ISO
+ * string, e.g. "Fri" or "vie".
+ */
+export function formatWeekday(time: string, locale: string = 'en'): string {
+    return getDateTimeFormat(locale, { weekday: 'short', timeZone: 'UTC' }).format(parseWallClock(time));
+}
+
+// --------------------
+// Bound formatters
+// --------------------
+/**
+ * The display preferences a formatter is bound to: the unit settings, and
+ * the language setting as resolved by `resolveLanguage`.
+ */
+export interface FormatPreferences {
+    temperatureUnit: TemperatureUnit;
+    windSpeedUnit: DisplayWindSpeedUnit;
+    precipitationUnit: PrecipitationUnit;
+    timeFormat: TimeFormat;
+    /** Language of the condition descriptions and relative times. */
+    language: Language;
+    /** BCP 47 tag whose conventions numbers and dates follow, e.g. "en-GB". */
+    locale: string;
+}
+
+export type Formatter = ReturnType<typeof createFormatter>;
+
+/**
+ * Binds the formatting helpers to a set of preferences. Values are assumed
+ * to already be in the preferred unit; pass `from` when a value was
+ * fetched in a fixed unit. `t` translates UI strings into the same
+ * language.
+ */
+export function createFormatter(preferences: FormatPreferences) {
+    const { temperatureUnit, windSpeedUnit, precipitationUnit, timeFormat, language, locale } = preferences;
+    const t = createTranslator(language);
+    return {
+        t,
+        number: (value: number, fractionDigits?: number) => formatNumber(value, fractionDigits, locale),
+        temperature: (value: number, from: TemperatureUnit = temperatureUnit) =>
+            formatTemperature(convertTemperature(value, from, temperatureUnit), temperatureUnit, locale),
+        windSpeed: (value: number, from: DisplayWindSpeedUnit = windSpeedUnit) =>
+            formatWindSpeed(convertWindSpeed(value, from, windSpeedUnit), windSpeedUnit, locale),
+        precipitation: (value: number, from: PrecipitationUnit = precipitationUnit) =>
+            formatPrecipitation(convertPrecipitation(value, from, precipitationUnit), precipitationUnit, locale),
+        percent: (value: number) => formatPercent(value, locale),
+        time: (time: string) => formatTime(time, timeFormat, locale),
+        weekday: (time: string) => formatWeekday(time, locale),
+        lastUpdated: (timestamp: number) => formatLastUpdated(timestamp, t),
+        condition: (weatherCode: number) => getWeatherDescription(weatherCode, language),
+    };
+}
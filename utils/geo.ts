@@ -0,0 +1,51 @@
+// utils/geo.ts
+import { Coordinates } from '../services/openMeteo';
+
+const EARTH_RADIUS_M = 6371000;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/**
+ * Great-circle distance between two points in meters (haversine formula).
+ */
+export function distanceInMeters(a: Coordinates, b: Coordinates): number {
+    const dLat = toRadians(b.latitude - a.latitude);
+    const dLon = toRadians(b.longitude - a.longitude);
+    const h =
+        Math.sin(dLat / 2) ** 2 +
+        Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+    return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Snaps a position to a grid of about 1 km (two decimals), the same
+ * rounding the forecast cache keys use. Device fixes snapped this way
+ * share cache entries wherever they are read or written.
+ */
+export function coarsenCoordinates({ latitude, longitude }: Coordinates): Coordinates {
+    return { latitude: Math.round(latitude * 100) / 100, longitude: Math.round(longitude * 100) / 100 };
+}
+
+/**
+ * Returns the point `distance` meters from `origin` along `bearing`
+ * (degrees clockwise from north).
+ */
+export function offsetCoordinate(origin: Coordinates, distance: number, bearing: number): Coordinates {
+    const angular = distance / EARTH_RADIUS_M;
+    const theta = toRadians(bearing);
+    const lat1 = toRadians(origin.latitude);
+    const lon1 = toRadians(origin.longitude);
+
+    const lat2 = Math.asin(
+        Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(theta)
+    );
+    const lon2 =
+        lon1 +
+        Math.atan2(
+            Math.sin(theta) * Math.sin(angular) * Math.cos(lat1),
+            Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2)
+        );
+
+    return { latitude: toDegrees(lat2), longitude: ((toDegrees(lon2) + 540) % 360) - 180 };
+}
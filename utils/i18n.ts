@@ -0,0 +1,85 @@
+// utils/i18n.ts
+import { getLocales } from 'expo-localization';
+import de from '../constants/locales/de';
+import en, { MessageKey, Messages } from '../constants/locales/en';
+import es from '../constants/locales/es';
+import fr from '../constants/locales/fr';
+
+export type { MessageKey } from '../constants/locales/en';
+
+export type Language = 'en' | 'es' | 'fr' | 'de';
+
+/** The language setting: a fixed language, or whatever the device prefers. */
+export type LanguagePreference = 'system' | Language;
+
+/** Supported languages, each labelled in its own language. */
+export const LANGUAGES: { value: Language; label: string }[] = [
+    { value: 'en', label: 'English' },
+    { value: 'es', label: 'Español' },
+    { value: 'fr', label: 'Français' },
+    { value: 'de', label: 'Deutsch' },
+];
+
+const CATALOGS: Record<Language, Messages> = { en, es, fr, de };
+
+export type MessageParams = Record<string, string | number>;
+export type Translator = (key: MessageKey, params?: MessageParams) => string;
+
+/**
+ * Looks up `key` in the language's catalog and fills in its `{name}`
+ * placeholders. Placeholders without a matching param are left as is.
+ */
+export function translate(language: Language, key: MessageKey, params?: MessageParams): string {
+    const message = (CATALOGS[language] ?? en)[key];
+    if (!params) return message;
+    return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+        params[name] !== undefined ? String(params[name]) : placeholder
+    );
+}
+
+export function createTranslator(language: Language): Translator {
+    return (key, params) => translate(language, key, params);
+}
+
+/** The language UI strings are shown in, and the BCP 47 tag used to format values. */
+export interface ResolvedLanguage {
+    language: Language;
+    locale: string;
+}
+
+const isLanguage = (code: string): code is Language => CATALOGS[code as Language] !== undefined;
+
+const languageOf = (tag: string) => tag.split('-')[0].toLowerCase();
+
+/**
+ * The device's preferred locales as BCP 47 tags, most preferred first.
+ */
+export function getDeviceLocales(): string[] {
+    try {
+        return getLocales().map(locale => locale.languageTag);
+    } catch (err) {
+        console.warn('Error reading device locales:', err);
+        return [];
+    }
+}
+
+/**
+ * Picks the language for `preference`. 'system' takes the first device
+ * locale we have a catalog for, falling back to English. The locale keeps
+ * the device's region when its language matches, so "en-GB" or "es-MX"
+ * users get their own date and number conventions.
+ */
+export function resolveLanguage(
+    preference: LanguagePreference,
+    deviceLocales: string[] = getDeviceLocales()
+): ResolvedLanguage {
+    let language: Language = 'en';
+    if (preference !== 'system') {
+        language = preference;
+    } else {
+        const supported = deviceLocales.map(languageOf).find(isLanguage);
+        if (supported) language = supported;
+    }
+    const locale = deviceLocales.find(tag => languageOf(tag) === language) ?? language;
+    return { language, locale };
+}
@@ -0,0 +1,44 @@
+// utils/lruCache.ts
+
+export interface LruCache<K, V> {
+    get(key: K): V | undefined;
+    set(key: K, value: V): void;
+    has(key: K): boolean;
+    delete(key: K): void;
+    clear(): void;
+    readonly size: number;
+}
+
+/**
+ * A fixed-size cache that evicts the least recently used entry. Relies on
+ * `Map` keeping insertion order: reads move an entry to the end, so the
+ * first key is always the oldest.
+ */
+export function createLruCache<K, V>(maxSize: number): LruCache<K, V> {
+    const entries = new Map<K, V>();
+
+    return {
+        get(key) {
+            if (!entries.has(key)) return undefined;
+            const value = entries.get(key) as V;
+            entries.delete(key);
+            entries.set(key, value);
+            return value;
+        },
+        set(key, value) {
+            entries.delete(key);
+            entries.set(key, value);
+            if (entries.size > maxSize) {
+                entries.delete(entries.keys().next().value as K);
+            }
+        },
+        has: key => entries.has(key),
+        delete: key => {
+            entries.delete(key);
+        },
+        clear: () => entries.clear(),
+        get size() {
+            return entries.size;
+        },
+    };
+}
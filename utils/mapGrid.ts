@@ -0,0 +1,89 @@
+// utils/mapGrid.ts
+import { Region } from 'react-native-maps';
+
+export interface Coordinate {
+    latitude: number;
+    longitude: number;
+}
+
+/**
+ * A grid cell aligned to a global lattice. Because cells snap to fixed
+ * multiples of their size, the same area always produces the same `key`,
+ * no matter where the viewport was when it was generated.
+ */
+export interface Tile {
+    key: string;
+    coordinates: Coordinate[];
+    center: Coordinate;
+}
+
+/** Cell sizes in degrees, smallest first. */
+const CELL_SIZES = [0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1, 2, 5];
+
+/** The grid aims for at most this many cells across the visible width. */
+const MAX_CELLS_ACROSS = 7;
+
+/** Upper bound on generated tiles, for very tall or very wide viewports. */
+export const MAX_TILES = 100;
+
+/**
+ * Picks the cell size for the current zoom level: the smallest size that
+ * still fits the visible longitude span in `MAX_CELLS_ACROSS` cells.
+ */
+export function getCellSize(region: Region): number {
+    const span = Math.max(region.longitudeDelta, region.latitudeDelta / 1.5);
+    return CELL_SIZES.find(size => span / size <= MAX_CELLS_ACROSS) ?? CELL_SIZES[CELL_SIZES.length - 1];
+}
+
+/**
+ * Returns the tiles covering the visible region, row by row from the
+ * south-west corner.
+ */
+export function getVisibleTiles(region: Region): Tile[] {
+    const size = getCellSize(region);
+    const minRow = Math.floor((region.latitude - region.latitudeDelta / 2) / size);
+    const maxRow = Math.floor((region.latitude + region.latitudeDelta / 2) / size);
+    const minCol = Math.floor((region.longitude - region.longitudeDelta / 2) / size);
+    const maxCol = Math.floor((region.longitude + region.longitudeDelta / 2) / size);
+
+    const tiles: Tile[] = [];
+    for (let row = minRow; row <= maxRow; row++) {
+        for (let col = minCol; col <= maxCol; col++) {
+            if (tiles.length >= MAX_TILES) return tiles;
+
+            // Calculate the corners of the tile. Rounding keeps float error
+            // out of the coordinates sent to the API.
+            const latMin = round(row * size);
+            const latMax = round((row + 1) * size);
+            const lonMin = round(col * size);
+            const lonMax = round((col + 1) * size);
+            if (latMin < -90 || latMax > 90) continue;
+
+            tiles.push({
+                key: `${size}:${row}:${col}`,
+                coordinates: [
+                    { latitude: latMin, longitude: lonMin },
+                    { latitude: latMin, longitude: lonMax },
+                    { latitude: latMax, longitude: lonMax },
+                    { latitude: latMax, longitude: lonMin },
+                ],
+                center: {
+                    latitude: round((latMin + latMax) / 2),
+                    longitude: round(wrapLongitude((lonMin + lonMax) / 2)),
+                },
+            });
+        }
+    }
+    return tiles;
+}
+
+/**
+ * Brings a longitude back into [-180, 180) after panning across the antimeridian.
+ */
+function wrapLongitude(longitude: number): number {
+    return ((((longitude + 180) % 360) + 360) % 360) - 180;
+}
+
+function round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+}
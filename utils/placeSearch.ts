@@ -0,0 +1,87 @@
+// utils/placeSearch.ts
+import { Coordinates } from '../services/openMeteo';
+import { Place, PlaceType } from '../services/geocoding';
+import { distanceInMeters } from './geo';
+import { MessageKey } from './i18n';
+
+export const PLACE_TYPE_LABEL_KEYS: Record<PlaceType, MessageKey> = {
+    city: 'placeType.city',
+    town: 'placeType.town',
+    village: 'placeType.village',
+    hamlet: 'placeType.hamlet',
+    other: 'placeType.other',
+};
+
+/**
+ * Folds a string for matching: lowercase, accents stripped, so "sao paulo"
+ * matches "São Paulo".
+ */
+export function foldText(text: string): string {
+    return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+export interface TextSegment {
+    text: string;
+    match: boolean;
+}
+
+/**
+ * Splits `text` into segments, marking every occurrence of `query` as a
+ * match. Matching ignores case and accents; the segments keep the
+ * original spelling.
+ */
+export function highlightMatches(text: string, query: string): TextSegment[] {
+    const needle = foldText(query.trim());
+    if (!needle) return [{ text, match: false }];
+
+    // Fold character by character so folded offsets map back onto `text`.
+    let folded = '';
+    const origins: number[] = [];
+    for (let i = 0; i < text.length; i++) {
+        const part = foldText(text[i]);
+        folded += part;
+        for (let j = 0; j < part.length; j++) origins.push(i);
+    }
+    origins.push(text.length);
+
+    const segments: TextSegment[] = [];
+    let cursor = 0;
+    let found = folded.indexOf(needle);
+    while (found !== -1) {
+        const start = origins[found];
+        const end = origins[found + needle.length];
+        if (start > cursor) segments.push({ text: text.slice(cursor, start), match: false });
+        segments.push({ text: text.slice(start, end), match: true });
+        cursor = end;
+        found = folded.indexOf(needle, found + needle.length);
+    }
+    if (cursor < text.length) segments.push({ text: text.slice(cursor), match: false });
+    return segments;
+}
+
+/** Importance assumed for places whose provider reports none. */
+const DEFAULT_IMPORTANCE = 0.3;
+
+/** Beyond this distance a place gets no proximity bonus. */
+const PROXIMITY_RANGE_M = 2000000;
+
+/** How much being close counts relative to importance, which ranges 0-1. */
+const PROXIMITY_WEIGHT = 0.5;
+
+/**
+ * Orders search results by importance, favoring places near `origin` when
+ * it is known, so that "Springfield" lists the nearest one first. Places
+ * with equal scores keep the provider's order.
+ */
+export function rankPlaces(places: Place[], origin?: Coordinates | null): Place[] {
+    const score = (place: Place) => {
+        const importance = place.importance ?? DEFAULT_IMPORTANCE;
+        if (!origin) return importance;
+        const distance = distanceInMeters(origin, place);
+        return importance + PROXIMITY_WEIGHT * Math.max(0, 1 - distance / PROXIMITY_RANGE_M);
+    };
+    return places
+        .map(place => ({ place, score: score(place) }))
+        .sort((a, b) => b.score - a.score)
+        .map(({ place }) => place);
+}
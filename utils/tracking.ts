@@ -0,0 +1,92 @@
+// utils/tracking.ts
+import * as Location from 'expo-location';
+import { DevicePosition, LocationRequest } from '../services/location';
+import { distanceInMeters } from './geo';
+import { MessageKey } from './i18n';
+
+/**
+ * How the forecast map follows the user:
+ * - `follow`: keeps the user centered.
+ * - `followHeading`: also rotates the map with the compass.
+ * - `free`: leaves the camera alone.
+ */
+export type TrackingMode = 'follow' | 'followHeading' | 'free';
+
+export const TRACKING_MODES: { id: TrackingMode; labelKey: MessageKey }[] = [
+    { id: 'follow', labelKey: 'tracking.follow' },
+    { id: 'followHeading', labelKey: 'tracking.followHeading' },
+    { id: 'free', labelKey: 'tracking.free' },
+];
+
+export interface TrackingConditions {
+    /** True when the user has not moved for a while. */
+    stationary: boolean;
+    /** True while the app is not in the foreground, or the map is not on screen. */
+    background: boolean;
+}
+
+/** Following a moving user: frequent, precise fixes. */
+const MOVING_REQUEST: LocationRequest = {
+    accuracy: Location.Accuracy.High,
+    timeInterval: 2000,
+    distanceInterval: 5,
+};
+
+/** Enough to notice when a resting user starts moving again. */
+const STATIONARY_REQUEST: LocationRequest = {
+    accuracy: Location.Accuracy.Balanced,
+    timeInterval: 15000,
+    distanceInterval: 25,
+};
+
+/** Free mode only needs the position for the forecast and zones. */
+const FREE_REQUEST: LocationRequest = {
+    accuracy: Location.Accuracy.Balanced,
+    timeInterval: 30000,
+    distanceInterval: 100,
+};
+
+/** Nobody is looking at the map. */
+const BACKGROUND_REQUEST: LocationRequest = {
+    accuracy: Location.Accuracy.Low,
+    timeInterval: 60000,
+    distanceInterval: 500,
+};
+
+/**
+ * The location updates the map asks for in `mode`. Accuracy and frequency
+ * drop when the user is at rest or the app is in the background.
+ */
+export function getTrackingRequest(mode: TrackingMode, { stationary, background }: TrackingConditions): LocationRequest {
+    if (background) return BACKGROUND_REQUEST;
+    if (mode === 'free') return FREE_REQUEST;
+    return stationary ? STATIONARY_REQUEST : MOVING_REQUEST;
+}
+
+/** Movement within this radius counts as standing still (GPS jitter). */
+export const STATIONARY_RADIUS_M = 25;
+
+/** The user counts as stationary after staying put this long. */
+export const STATIONARY_AFTER_MS = 2 * 60 * 1000;
+
+export interface RestAnchor {
+    /** Where the user was when they last moved. */
+    position: DevicePosition;
+    /** Epoch milliseconds of that fix. */
+    since: number;
+}
+
+/**
+ * Advances the rest anchor with a new fix: it moves along whenever the
+ * user leaves STATIONARY_RADIUS_M around it. The user is stationary once
+ * the anchor has stayed put for STATIONARY_AFTER_MS.
+ */
+export function updateRestAnchor(
+    anchor: RestAnchor | null,
+    position: DevicePosition
+): { anchor: RestAnchor; stationary: boolean } {
+    if (!anchor || distanceInMeters(anchor.position, position) > STATIONARY_RADIUS_M) {
+        return { anchor: { position, since: position.timestamp }, stationary: false };
+    }
+    return { anchor, stationary: position.timestamp - anchor.since >= STATIONARY_AFTER_MS };
+}
@@ -0,0 +1,186 @@
+// utils/weatherAlerts.ts
+import { ForecastResponse, findCurrentHourIndex, parseLocalTime } from '../services/openMeteo';
+import { Formatter } from './format';
+import { MessageKey } from './i18n';
+
+export type AlertRuleId = 'thunderstorm' | 'heavySnow' | 'freezingRain' | 'windGusts' | 'extremeHeat' | 'extremeCold';
+
+export interface AlertRule {
+    id: AlertRuleId;
+    labelKey: MessageKey;
+}
+
+export const ALERT_RULES: AlertRule[] = [
+    { id: 'thunderstorm', labelKey: 'alertRule.thunderstorm' },
+    { id: 'heavySnow', labelKey: 'alertRule.heavySnow' },
+    { id: 'freezingRain', labelKey: 'alertRule.freezingRain' },
+    { id: 'windGusts', labelKey: 'alertRule.windGusts' },
+    { id: 'extremeHeat', labelKey: 'alertRule.extremeHeat' },
+    { id: 'extremeCold', labelKey: 'alertRule.extremeCold' },
+];
+
+export interface AlertSettings {
+    /** Whether new alerts also fire a local notification. */
+    notify: boolean;
+    enabled: Record<AlertRuleId, boolean>;
+    /** Gust speed in km/h at or above which `windGusts` triggers. */
+    windGustKmh: number;
+    /** Temperature in °C at or above which `extremeHeat` triggers. */
+    heatCelsius: number;
+    /** Temperature in °C at or below which `extremeCold` triggers. */
+    coldCelsius: number;
+}
+
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+    notify: true,
+    enabled: {
+        thunderstorm: true,
+        heavySnow: true,
+        freezingRain: true,
+        windGusts: true,
+        extremeHeat: true,
+        extremeCold: true,
+    },
+    windGustKmh: 75,
+    heatCelsius: 35,
+    coldCelsius: -20,
+};
+
+/** Hourly variables the rules read. Fetched in the API's default units. */
+export const ALERT_HOURLY_VARIABLES = ['weather_code', 'temperature_2m', 'wind_gusts_10m'] as const;
+
+export type AlertForecast = ForecastResponse<(typeof ALERT_HOURLY_VARIABLES)[number]>;
+
+/** How many hours ahead of now the rules look. */
+export const ALERT_HORIZON_HOURS = 24;
+
+// WMO weather codes.
+const THUNDERSTORM_CODES = [95, 96, 97, 98, 99];
+const HEAVY_SNOW_CODES = [75, 86]; // Heavy snowfall, heavy snow showers
+const FREEZING_CODES = [56, 57, 66, 67]; // Freezing drizzle and freezing rain
+
+export interface WeatherAlert {
+    ruleId: AlertRuleId;
+    /** Local ISO time of the first matching hour. */
+    start: string;
+    /** Local ISO time of the last matching hour. */
+    end: string;
+    /** Epoch milliseconds of `start`. */
+    startsAt: number;
+    /** Highest gust (km/h) or most extreme temperature (°C); null for code-based rules. */
+    peak: number | null;
+    /**
+     * Identifies the event by its rule and first matching hour, including
+     * hours already past, so an ongoing event keeps its key as time goes by.
+     */
+    eventKey: string;
+}
+
+type HourlyAlertSeries = AlertForecast['hourly'];
+
+/**
+ * Returns the value an hour contributes to a rule's event, or undefined
+ * when the hour does not match. Code-based rules contribute null.
+ */
+function matchHour(
+    ruleId: AlertRuleId,
+    hourly: HourlyAlertSeries,
+    i: number,
+    settings: AlertSettings
+): number | null | undefined {
+    switch (ruleId) {
+        case 'thunderstorm':
+            return THUNDERSTORM_CODES.includes(hourly.weather_code[i]) ? null : undefined;
+        case 'heavySnow':
+            return HEAVY_SNOW_CODES.includes(hourly.weather_code[i]) ? null : undefined;
+        case 'freezingRain':
+            return FREEZING_CODES.includes(hourly.weather_code[i]) ? null : undefined;
+        case 'windGusts':
+            return hourly.wind_gusts_10m[i] >= settings.windGustKmh ? hourly.wind_gusts_10m[i] : undefined;
+        case 'extremeHeat':
+            return hourly.temperature_2m[i] >= settings.heatCelsius ? hourly.temperature_2m[i] : undefined;
+        case 'extremeCold':
+            return hourly.temperature_2m[i] <= settings.coldCelsius ? hourly.temperature_2m[i] : undefined;
+    }
+}
+
+/** Keeps the more extreme of two values for a rule. */
+function morePeak(ruleId: AlertRuleId, a: number | null, b: number | null): number | null {
+    if (a === null || b === null) return a ?? b;
+    return ruleId === 'extremeCold' ? Math.min(a, b) : Math.max(a, b);
+}
+
+/**
+ * Checks the next ALERT_HORIZON_HOURS of a forecast against the enabled
+ * rules. Consecutive matching hours form a single alert. Past hours in the
+ * series only serve to find where an ongoing event began.
+ */
+export function evaluateAlerts(
+    forecast: AlertForecast,
+    settings: AlertSettings,
+    now: number = Date.now()
+): WeatherAlert[] {
+    const { hourly, utc_offset_seconds } = forecast;
+    if (hourly.time.length === 0) return [];
+
+    let startIndex = findCurrentHourIndex(hourly.time, utc_offset_seconds, now);
+    if (startIndex === -1) {
+        // Either the whole series is ahead of us, or it has already ended.
+        if (parseLocalTime(hourly.time[0], utc_offset_seconds) <= now) return [];
+        startIndex = 0;
+    }
+    const endIndex = Math.min(hourly.time.length, startIndex + ALERT_HORIZON_HOURS);
+
+    const alerts: WeatherAlert[] = [];
+    for (const { id } of ALERT_RULES) {
+        if (!settings.enabled[id]) continue;
+
+        let current: WeatherAlert | null = null;
+        for (let i = startIndex; i < endIndex; i++) {
+            const value = matchHour(id, hourly, i, settings);
+            if (value === undefined) {
+                current = null;
+                continue;
+            }
+            if (current) {
+                current.end = hourly.time[i];
+                current.peak = morePeak(id, current.peak, value);
+                continue;
+            }
+            let first = i;
+            while (first > 0 && matchHour(id, hourly, first - 1, settings) !== undefined) first--;
+            current = {
+                ruleId: id,
+                start: hourly.time[i],
+                end: hourly.time[i],
+                startsAt: parseLocalTime(hourly.time[i], utc_offset_seconds),
+                peak: value,
+                eventKey: `${id}:${hourly.time[first]}`,
+            };
+            alerts.push(current);
+        }
+    }
+
+    return alerts.sort((a, b) => a.startsAt - b.startsAt);
+}
+
+export function getAlertRule(id: AlertRuleId): AlertRule {
+    return ALERT_RULES.find(rule => rule.id === id) ?? ALERT_RULES[0];
+}
+
+/**
+ * Describes an alert for display, e.g. "Wind gusts up to 90 km/h from 14:00".
+ */
+export function describeAlert(alert: WeatherAlert, format: Formatter): string {
+    const time = format.time(alert.start);
+    switch (alert.ruleId) {
+        case 'windGusts':
+            return format.t('alerts.windGusts', { speed: format.windSpeed(alert.peak ?? 0, 'kmh'), time });
+        case 'extremeHeat':
+            return format.t('alerts.extremeHeat', { temperature: format.temperature(alert.peak ?? 0, 'celsius'), time });
+        case 'extremeCold':
+            return format.t('alerts.extremeCold', { temperature: format.temperature(alert.peak ?? 0, 'celsius'), time });
+        default:
+            return format.t('alerts.expected', { rule: format.t(getAlertRule(alert.ruleId).labelKey), time });
+    }
+}
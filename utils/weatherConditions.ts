@@ -0,0 +1,319 @@
+// utils/weatherConditions.ts
+import { Language } from './i18n';
+
+/**
+ * Every WMO weather interpretation code Open-Meteo reports, with its
+ * severity, icons and a description in each supported language.
+ * Reference: https://open-meteo.com/en/docs (WMO Weather interpretation codes)
+ */
+
+type Condition =
+    | 'clear'
+    | 'mainlyClear'
+    | 'partlyCloudy'
+    | 'overcast'
+    | 'fog'
+    | 'rimeFog'
+    | 'lightDrizzle'
+    | 'drizzle'
+    | 'denseDrizzle'
+    | 'lightFreezingDrizzle'
+    | 'denseFreezingDrizzle'
+    | 'lightRain'
+    | 'rain'
+    | 'heavyRain'
+    | 'lightFreezingRain'
+    | 'heavyFreezingRain'
+    | 'lightSnow'
+    | 'snow'
+    | 'heavySnow'
+    | 'snowGrains'
+    | 'lightRainShowers'
+    | 'rainShowers'
+    | 'violentRainShowers'
+    | 'lightSnowShowers'
+    | 'heavySnowShowers'
+    | 'thunderstorm'
+    | 'thunderstormHail'
+    | 'thunderstormHeavyHail'
+    | 'unknown';
+
+/** How much a condition gets in the way, from harmless to hazardous. */
+export type ConditionSeverity = 'none' | 'light' | 'moderate' | 'severe';
+
+/** Ionicons glyphs used for conditions. */
+export type WeatherIconName =
+    | 'sunny'
+    | 'moon'
+    | 'partly-sunny'
+    | 'cloudy-night'
+    | 'cloudy'
+    | 'rainy-outline'
+    | 'rainy'
+    | 'snow-outline'
+    | 'snow'
+    | 'thunderstorm';
+
+/** SF Symbols used for conditions; `IconSymbol` maps each to MaterialIcons. */
+export type WeatherSymbolName =
+    | 'sun.max.fill'
+    | 'moon.stars.fill'
+    | 'cloud.sun.fill'
+    | 'cloud.moon.fill'
+    | 'cloud.fill'
+    | 'cloud.fog.fill'
+    | 'cloud.drizzle.fill'
+    | 'cloud.sleet.fill'
+    | 'cloud.rain.fill'
+    | 'cloud.heavyrain.fill'
+    | 'cloud.snow.fill'
+    | 'snowflake'
+    | 'cloud.sun.rain.fill'
+    | 'cloud.moon.rain.fill'
+    | 'cloud.bolt.rain.fill'
+    | 'cloud.hail.fill';
+
+interface DayNight<T> {
+    day: T;
+    night: T;
+}
+
+export interface WeatherCondition {
+    /** The WMO code, or -1 for codes this module does not know. */
+    code: number;
+    condition: Condition;
+    severity: ConditionSeverity;
+    icon: DayNight<WeatherIconName>;
+    symbol: DayNight<WeatherSymbolName>;
+}
+
+const same = <T>(value: T): DayNight<T> => ({ day: value, night: value });
+
+function define(
+    code: number,
+    condition: Condition,
+    severity: ConditionSeverity,
+    icon: DayNight<WeatherIconName> | WeatherIconName,
+    symbol: DayNight<WeatherSymbolName> | WeatherSymbolName
+): WeatherCondition {
+    return {
+        code,
+        condition,
+        severity,
+        icon: typeof icon === 'string' ? same(icon) : icon,
+        symbol: typeof symbol === 'string' ? same(symbol) : symbol,
+    };
+}
+
+const CLEAR_ICON: DayNight<WeatherIconName> = { day: 'sunny', night: 'moon' };
+const CLEAR_SYMBOL: DayNight<WeatherSymbolName> = { day: 'sun.max.fill', night: 'moon.stars.fill' };
+const SHOWER_SYMBOL: DayNight<WeatherSymbolName> = { day: 'cloud.sun.rain.fill', night: 'cloud.moon.rain.fill' };
+
+const CONDITIONS: WeatherCondition[] = [
+    define(0, 'clear', 'none', CLEAR_ICON, CLEAR_SYMBOL),
+    define(1, 'mainlyClear', 'none', CLEAR_ICON, CLEAR_SYMBOL),
+    define(
+        2,
+        'partlyCloudy',
+        'none',
+        { day: 'partly-sunny', night: 'cloudy-night' },
+        { day: 'cloud.sun.fill', night: 'cloud.moon.fill' }
+    ),
+    define(3, 'overcast', 'none', 'cloudy', 'cloud.fill'),
+    define(45, 'fog', 'light', 'cloudy', 'cloud.fog.fill'),
+    define(48, 'rimeFog', 'moderate', 'cloudy', 'cloud.fog.fill'),
+    define(51, 'lightDrizzle', 'light', 'rainy-outline', 'cloud.drizzle.fill'),
+    define(53, 'drizzle', 'light', 'rainy-outline', 'cloud.drizzle.fill'),
+    define(55, 'denseDrizzle', 'moderate', 'rainy-outline', 'cloud.drizzle.fill'),
+    // Anything freezing glazes roads, so it is severe however light.
+    define(56, 'lightFreezingDrizzle', 'severe', 'rainy-outline', 'cloud.sleet.fill'),
+    define(57, 'denseFreezingDrizzle', 'severe', 'rainy-outline', 'cloud.sleet.fill'),
+    define(61, 'lightRain', 'light', 'rainy', 'cloud.rain.fill'),
+    define(63, 'rain', 'moderate', 'rainy', 'cloud.rain.fill'),
+    define(65, 'heavyRain', 'severe', 'rainy', 'cloud.heavyrain.fill'),
+    define(66, 'lightFreezingRain', 'severe', 'rainy', 'cloud.sleet.fill'),
+    define(67, 'heavyFreezingRain', 'severe', 'rainy', 'cloud.sleet.fill'),
+    define(71, 'lightSnow', 'light', 'snow', 'cloud.snow.fill'),
+    define(73, 'snow', 'moderate', 'snow', 'cloud.snow.fill'),
+    define(75, 'heavySnow', 'severe', 'snow', 'cloud.snow.fill'),
+    define(77, 'snowGrains', 'light', 'snow-outline', 'snowflake'),
+    define(80, 'lightRainShowers', 'light', 'rainy', SHOWER_SYMBOL),
+    define(81, 'rainShowers', 'moderate', 'rainy', SHOWER_SYMBOL),
+    define(82, 'violentRainShowers', 'severe', 'rainy', 'cloud.heavyrain.fill'),
+    define(85, 'lightSnowShowers', 'moderate', 'snow', 'cloud.snow.fill'),
+    define(86, 'heavySnowShowers', 'severe', 'snow', 'cloud.snow.fill'),
+    define(95, 'thunderstorm', 'severe', 'thunderstorm', 'cloud.bolt.rain.fill'),
+    define(96, 'thunderstormHail', 'severe', 'thunderstorm', 'cloud.hail.fill'),
+    define(99, 'thunderstormHeavyHail', 'severe', 'thunderstorm', 'cloud.hail.fill'),
+];
+
+const UNKNOWN_CONDITION = define(-1, 'unknown', 'none', 'cloudy', 'cloud.fill');
+
+const CONDITIONS_BY_CODE = new Map(CONDITIONS.map(condition => [condition.code, condition]));
+
+/** Every WMO code with a dedicated entry. */
+export const WMO_CODES: number[] = CONDITIONS.map(condition => condition.code);
+
+const DESCRIPTIONS: Record<Language, Record<Condition, string>> = {
+    en: {
+        clear: 'Clear',
+        mainlyClear: 'Mainly clear',
+        partlyCloudy: 'Partly cloudy',
+        overcast: 'Overcast',
+        fog: 'Foggy',
+        rimeFog: 'Freezing fog',
+        lightDrizzle: 'Light drizzle',
+        drizzle: 'Drizzle',
+        denseDrizzle: 'Dense drizzle',
+        lightFreezingDrizzle: 'Light freezing drizzle',
+        denseFreezingDrizzle: 'Dense freezing drizzle',
+        lightRain: 'Light rain',
+        rain: 'Rain',
+        heavyRain: 'Heavy rain',
+        lightFreezingRain: 'Light freezing rain',
+        heavyFreezingRain: 'Heavy freezing rain',
+        lightSnow: 'Light snow',
+        snow: 'Snow',
+        heavySnow: 'Heavy snow',
+        snowGrains: 'Snow grains',
+        lightRainShowers: 'Light rain showers',
+        rainShowers: 'Rain showers',
+        violentRainShowers: 'Violent rain showers',
+        lightSnowShowers: 'Light snow showers',
+        heavySnowShowers: 'Heavy snow showers',
+        thunderstorm: 'Thunderstorm',
+        thunderstormHail: 'Thunderstorm with hail',
+        thunderstormHeavyHail: 'Thunderstorm with heavy hail',
+        unknown: 'Unknown',
+    },
+    es: {
+        clear: 'Despejado',
+        mainlyClear: 'Mayormente despejado',
+        partlyCloudy: 'Parcialmente nublado',
+        overcast: 'Cubierto',
+        fog: 'Niebla',
+        rimeFog: 'Niebla helada',
+        lightDrizzle: 'Llovizna ligera',
+        drizzle: 'Llovizna',
+        denseDrizzle: 'Llovizna intensa',
+        lightFreezingDrizzle: 'Llovizna helada ligera',
+        denseFreezingDrizzle: 'Llovizna helada intensa',
+        lightRain: 'Lluvia ligera',
+        rain: 'Lluvia',
+        heavyRain: 'Lluvia intensa',
+        lightFreezingRain: 'Lluvia helada ligera',
+        heavyFreezingRain: 'Lluvia helada intensa',
+        lightSnow: 'Nevada ligera',
+        snow: 'Nieve',
+        heavySnow: 'Nevada intensa',
+        snowGrains: 'Granos de nieve',
+        lightRainShowers: 'Chubascos ligeros',
+        rainShowers: 'Chubascos',
+        violentRainShowers: 'Chubascos violentos',
+        lightSnowShowers: 'Chubascos de nieve ligeros',
+        heavySnowShowers: 'Chubascos de nieve intensos',
+        thunderstorm: 'Tormenta',
+        thunderstormHail: 'Tormenta con granizo',
+        thunderstormHeavyHail: 'Tormenta con granizo fuerte',
+        unknown: 'Desconocido',
+    },
+    fr: {
+        clear: 'Dégagé',
+        mainlyClear: 'Plutôt dégagé',
+        partlyCloudy: 'Partiellement nuageux',
+        overcast: 'Couvert',
+        fog: 'Brouillard',
+        rimeFog: 'Brouillard givrant',
+        lightDrizzle: 'Bruine légère',
+        drizzle: 'Bruine',
+        denseDrizzle: 'Bruine dense',
+        lightFreezingDrizzle: 'Bruine verglaçante légère',
+        denseFreezingDrizzle: 'Bruine verglaçante dense',
+        lightRain: 'Pluie légère',
+        rain: 'Pluie',
+        heavyRain: 'Forte pluie',
+        lightFreezingRain: 'Pluie verglaçante légère',
+        heavyFreezingRain: 'Forte pluie verglaçante',
+        lightSnow: 'Neige légère',
+        snow: 'Neige',
+        heavySnow: 'Fortes chutes de neige',
+        snowGrains: 'Neige en grains',
+        lightRainShowers: 'Averses légères',
+        rainShowers: 'Averses',
+        violentRainShowers: 'Averses violentes',
+        lightSnowShowers: 'Averses de neige légères',
+        heavySnowShowers: 'Fortes averses de neige',
+        thunderstorm: 'Orage',
+        thunderstormHail: 'Orage avec grêle',
+        thunderstormHeavyHail: 'Orage avec forte grêle',
+        unknown: 'Inconnu',
+    },
+    de: {
+        clear: 'Klar',
+        mainlyClear: 'Überwiegend klar',
+        partlyCloudy: 'Teilweise bewölkt',
+        overcast: 'Bedeckt',
+        fog: 'Nebel',
+        rimeFog: 'Gefrierender Nebel',
+        lightDrizzle: 'Leichter Nieselregen',
+        drizzle: 'Nieselregen',
+        denseDrizzle: 'Starker Nieselregen',
+        lightFreezingDrizzle: 'Leichter gefrierender Nieselregen',
+        denseFreezingDrizzle: 'Starker gefrierender Nieselregen',
+        lightRain: 'Leichter Regen',
+        rain: 'Regen',
+        heavyRain: 'Starker Regen',
+        lightFreezingRain: 'Leichter gefrierender Regen',
+        heavyFreezingRain: 'Starker gefrierender Regen',
+        lightSnow: 'Leichter Schneefall',
+        snow: 'Schneefall',
+        heavySnow: 'Starker Schneefall',
+        snowGrains: 'Schneegriesel',
+        lightRainShowers: 'Leichte Regenschauer',
+        rainShowers: 'Regenschauer',
+        violentRainShowers: 'Heftige Regenschauer',
+        lightSnowShowers: 'Leichte Schneeschauer',
+        heavySnowShowers: 'Starke Schneeschauer',
+        thunderstorm: 'Gewitter',
+        thunderstormHail: 'Gewitter mit Hagel',
+        thunderstormHeavyHail: 'Gewitter mit starkem Hagel',
+        unknown: 'Unbekannt',
+    },
+};
+
+/**
+ * Everything known about a weather_code. Codes outside the WMO table get
+ * an 'unknown' condition rather than throwing.
+ */
+export function getWeatherCondition(code: number): WeatherCondition {
+    return CONDITIONS_BY_CODE.get(code) ?? UNKNOWN_CONDITION;
+}
+
+/**
+ * Helper to convert the API’s weather_code into a friendly description.
+ */
+export function getWeatherDescription(code: number, language: Language = 'en'): string {
+    return DESCRIPTIONS[language][getWeatherCondition(code).condition];
+}
+
+export function getConditionSeverity(code: number): ConditionSeverity {
+    return getWeatherCondition(code).severity;
+}
+
+/**
+ * Maps a weather_code to an Ionicons glyph, using the night variant when
+ * `isDay` is false.
+ */
+export function getWeatherIcon(code: number, isDay: boolean = true): WeatherIconName {
+    const { icon } = getWeatherCondition(code);
+    return isDay ? icon.day : icon.night;
+}
+
+/**
+ * Maps a weather_code to an SF Symbol for `IconSymbol`, using the night
+ * variant when `isDay` is false.
+ */
+export function getWeatherSymbol(code: number, isDay: boolean = true): WeatherSymbolName {
+    const { symbol } = getWeatherCondition(code);
+    return isDay ? symbol.day : symbol.night;
+}